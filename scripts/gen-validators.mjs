@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * Generate runtime validator schemas from the OpenAPI spec
+ *
+ * Usage:
+ *   node ./scripts/gen-validators.mjs [spec] [out]
+ *
+ * Emits a compact, JSON-serializable description of every component schema.
+ * src/core/validate.ts interprets it at runtime - only the subset of JSON Schema
+ * used by the spec is supported (type / type arrays, properties, required,
+ * additionalProperties, items, enum, oneOf / anyOf and $ref).
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+const specPath = process.argv[2] ?? "./openapi/openapi.public.json";
+const outPath = process.argv[3] ?? "./src/generated/openapi-validators.ts";
+
+const spec = JSON.parse(fs.readFileSync(specPath, "utf8"));
+const components = spec.components?.schemas ?? {};
+
+function convert(schema, where) {
+  if (schema.$ref) {
+    const prefix = "#/components/schemas/";
+    if (!schema.$ref.startsWith(prefix)) {
+      throw new Error(`${where}: unsupported $ref "${schema.$ref}"`);
+    }
+    return { ref: schema.$ref.slice(prefix.length) };
+  }
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    return { anyOf: variants.map((v, i) => convert(v, `${where}[${i}]`)) };
+  }
+
+  if (Array.isArray(schema.type)) {
+    return { anyOf: schema.type.map((type) => convert({ ...schema, type }, where)) };
+  }
+
+  if (schema.enum) {
+    return { enum: schema.enum };
+  }
+
+  switch (schema.type) {
+    case "object": {
+      const node = {
+        type: "object",
+        required: schema.required ?? [],
+        properties: Object.fromEntries(
+          Object.entries(schema.properties ?? {}).map(([key, value]) => [
+            key,
+            convert(value, `${where}.${key}`),
+          ])
+        ),
+      };
+      if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        node.additionalProperties = convert(schema.additionalProperties, `${where}.*`);
+      }
+      return node;
+    }
+    case "array":
+      return { type: "array", items: convert(schema.items ?? {}, `${where}[]`) };
+    case "string":
+    case "number":
+    case "integer":
+    case "boolean":
+    case "null":
+      return { type: schema.type };
+    default:
+      throw new Error(`${where}: unsupported schema ${JSON.stringify(schema)}`);
+  }
+}
+
+const schemas = Object.fromEntries(
+  Object.entries(components).map(([name, schema]) => [name, convert(schema, name)])
+);
+
+const output = `/**
+ * This file was auto-generated by scripts/gen-validators.mjs.
+ * Do not make direct changes to the file.
+ */
+
+import type { SchemaNode } from "../core/validate.js";
+
+export type SchemaName = ${Object.keys(schemas)
+  .map((name) => JSON.stringify(name))
+  .join(" | ")};
+
+export const schemas: Record<SchemaName, SchemaNode> = ${JSON.stringify(schemas, null, 4)};
+`;
+
+fs.mkdirSync(path.dirname(outPath), { recursive: true });
+fs.writeFileSync(outPath, output, "utf8");
+console.log(`✔ ${specPath} → ${outPath}`);
@@ -5,16 +5,83 @@
  */
 
 import {
+  createAbortedError,
+  createCheckoutCancelledError,
   createConfigError,
+  createEntitlementRequiredError,
+  createInvalidTokenError,
+  createRuntimeError,
+  createTimeoutError,
+  isBillingExtensionsError,
   normalizeError,
+  type BillingExtensionsError,
 } from "../core/errors.js";
-import { createHttpClient } from "../core/http.js";
+import { createHttpClient, resolveApiOrigin, validateRetryPolicy, type CacheValidators } from "../core/http.js";
 import { computeStatusDiff, hasAnyChange } from "../core/diff.js";
+import { claimLifecycleEvent, computeLifecycleEvents } from "../core/lifecycle.js";
+import {
+  consumePaywallSession,
+  createTabRateLimiter,
+  isAllowedCheckoutSender,
+  isCheckoutCancelledMessage,
+  isCheckoutReturnMessage,
+  isValidCheckoutReturn,
+  rememberPaywallSession,
+} from "../core/checkoutReturn.js";
+import {
+  BROKER_MESSAGE,
+  DEFAULT_BROKER_TIMEOUT_MS,
+  deserializeError,
+  isBrokerRequest,
+  sendBrokerRequest,
+  serializeError,
+  type BrokerMethod,
+  type BrokerRequest,
+  type BrokerResponse,
+} from "../core/broker.js";
 import { openUrl } from "../core/tabs.js";
+import { getExtensionApi, getRuntimeId } from "../core/platform.js";
+import { getOrCreateExtensionUserId } from "../core/identity.js";
+import { verifySignedStatus } from "../core/signedStatus.js";
+import { getStoredLicense, licenseToStatus, saveLicense, verifyLicense } from "../core/license.js";
+import {
+  BACKGROUND_REFRESH_ALARM,
+  clearBackgroundRefreshAlarm,
+  expireStatus,
+  getAlarmsApi,
+  getIdleApi,
+  IDLE_DETECTION_SECONDS,
+  isUserIdle,
+  PERIOD_END_ALARM,
+  scheduleBackgroundRefreshAlarm,
+  schedulePeriodEndAlarm,
+  shouldExpireAtPeriodEnd,
+} from "../core/alarms.js";
+import {
+  validateIdentityToken,
+  validateLicenseActivation,
+  validatePaywallSession,
+  validatePlans,
+  validateUserStatus,
+} from "../core/validate.js";
+import { getLimit, hasFeature, resolveEntitlements } from "../core/entitlements.js";
+import {
+  addPendingUsage,
+  computeUsageQuota,
+  getPendingUsage,
+  markUsageInFlight,
+  PENDING_USAGE_KEY,
+  restoreInFlightUsage,
+  settleInFlightUsage,
+  type PendingUsage,
+} from "../core/usage.js";
 import {
   getFromBestStorage,
+  removeFromSessionStorage,
   setInBestStorage,
 } from "../core/storage.js";
+import { getDefaultStorageAdapter } from "../core/storageAdapters.js";
+import { createVersionedStorage } from "../core/storageSchema.js";
 import {
   activateAutoSync,
   createAutoSyncState,
@@ -26,38 +93,100 @@ import {
 import type {
   AutoSyncOptions,
   AutoSyncState,
+  BackgroundTrackingOptions,
   BillingExtensionsClient,
   BillingExtensionsClientConfig,
+  CachedPlans,
   CachedStatus,
+  GetPlansOptions,
   GetUserOptions,
+  IdentityTokenResponse,
+  LifecycleEventHandler,
+  LifecycleEventType,
+  LicenseActivationResponse,
+  OpenCheckoutOptions,
   PaywallSessionResponse,
   PlanForSDK,
   StatusChangeHandler,
+  StatusMeta,
+  UsageQuota,
   UserStatus,
+  WaitForOptions,
 } from "./types.js";
 
 /**
- * Storage key for cached status
+ * Storage key for cached status (namespaced by createVersionedStorage)
+ */
+const STATUS_CACHE_KEY = "status_cache";
+
+/**
+ * Storage key for cached plans
+ */
+const PLANS_CACHE_KEY = "plans_cache";
+
+/**
+ * Plans cache TTL in milliseconds (1 hour) - plans change far less often than status
+ */
+const DEFAULT_PLANS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Default status cache TTL in milliseconds (6 hours)
  */
-const STATUS_CACHE_KEY = "billingextensions_status_cache";
+const DEFAULT_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
 
 /**
- * Default cache TTL in milliseconds (30 seconds)
+ * Default time past the TTL a status is served while offline (24 hours)
  */
-const DEFAULT_CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const DEFAULT_MAX_STALE_MS = 24 * 60 * 60 * 1000;
 
+/**
+ * Default time past the TTL paid users keep their status while offline (7 days)
+ */
+const DEFAULT_OFFLINE_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
 
-const CHECKOUT_RETURN_MESSAGE = "BILLINGEXTENSIONS_CHECKOUT_RETURNED";
 
-const LAST_SWR_AT_KEY = "billingextensions_last_swr_at";
+/**
+ * Minimum time between accepted checkout returns from the same tab
+ */
+const CHECKOUT_RETURN_RATE_LIMIT_MS = 10_000;
+
+const LAST_SWR_AT_KEY = "last_swr_at";
 const SWR_COOLDOWN_MS = 5_000;
 
+/**
+ * Delay before flushing batched usage (and after a failed flush)
+ */
+const USAGE_FLUSH_DELAY_MS = 5_000;
+const USAGE_FLUSH_RETRY_MS = 60_000;
+
+/**
+ * Refresh identity tokens this long before they expire
+ */
+const IDENTITY_TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+/**
+ * waitFor() defaults: give up after 5 minutes, refresh every 3 seconds (at most every second)
+ */
+const DEFAULT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_WAIT_POLL_INTERVAL_MS = 3_000;
+const MIN_WAIT_POLL_INTERVAL_MS = 1_000;
+
 /**
  * API response types
  */
 type UserStatusResponse = UserStatus;
 
 
+/**
+ * Extract the HTTP cache validators stored alongside a cached payload
+ */
+function getStoredValidators(cached: { etag?: string; lastModified?: string }): CacheValidators {
+  const validators: CacheValidators = {};
+  if (cached.etag !== undefined) validators.etag = cached.etag;
+  if (cached.lastModified !== undefined) validators.lastModified = cached.lastModified;
+  return validators;
+}
+
 /**
  * Validate client configuration
  */
@@ -69,6 +198,75 @@ function validateConfig(config: BillingExtensionsClientConfig): void {
   if (!config.publicKey || typeof config.publicKey !== "string") {
     throw createConfigError("publicKey is required and must be a non-empty string");
   }
+
+  const environment = config.environment;
+  if (environment !== undefined) {
+    const isNamed = environment === "production" || environment === "staging";
+    if (!isNamed && typeof environment?.origin !== "string") {
+      throw createConfigError('environment must be "production", "staging" or { origin: string }');
+    }
+
+    // Throws ConfigError for malformed custom origins
+    resolveApiOrigin(environment);
+  }
+
+  if (config.checkoutOrigins !== undefined) {
+    if (!Array.isArray(config.checkoutOrigins)) {
+      throw createConfigError("checkoutOrigins must be an array of origins");
+    }
+    for (const origin of config.checkoutOrigins) {
+      try {
+        new URL(origin);
+      } catch {
+        throw createConfigError(`checkoutOrigins contains an invalid URL: "${String(origin)}"`);
+      }
+    }
+  }
+
+  if (config.storage !== undefined) {
+    const storage = config.storage as unknown as Partial<Record<string, unknown>> | null;
+    const methods = ["get", "set", "remove", "subscribe"];
+    if (!storage || methods.some((method) => typeof storage[method] !== "function")) {
+      throw createConfigError("storage must implement get, set, remove and subscribe");
+    }
+  }
+
+  if (config.broker !== undefined && typeof config.broker === "object") {
+    const timeoutMs = config.broker?.timeoutMs;
+    if (timeoutMs !== undefined && (!Number.isFinite(timeoutMs) || timeoutMs <= 0)) {
+      throw createConfigError("broker.timeoutMs must be a positive number");
+    }
+  }
+
+  // Throws ConfigError for attempt counts (NaN, Infinity) that would retry forever
+  validateRetryPolicy(config.retry);
+
+  if (config.cache !== undefined) {
+    for (const option of ["ttlMs", "maxStaleMs", "offlineGraceMs"] as const) {
+      const value = config.cache?.[option];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        throw createConfigError(`cache.${option} must be a non-negative number`);
+      }
+    }
+    if (
+      config.cache.onGraceExpired !== undefined &&
+      typeof config.cache.onGraceExpired !== "function"
+    ) {
+      throw createConfigError("cache.onGraceExpired must be a function");
+    }
+  }
+
+  if (config.verificationKeys !== undefined) {
+    if (!Array.isArray(config.verificationKeys) || config.verificationKeys.length === 0) {
+      throw createConfigError("verificationKeys must be a non-empty array of public JWKs");
+    }
+  }
+
+  if (config.entitlements !== undefined) {
+    if (typeof config.entitlements?.plans !== "object" || config.entitlements.plans === null) {
+      throw createConfigError("entitlements.plans must be an object keyed by plan ID");
+    }
+  }
 }
 
 /**
@@ -84,17 +282,75 @@ export function createBillingExtensionsClient(
   // Validate configuration
   validateConfig(config);
 
+  // Where the user ID, status cache and other state live (per-app keys,
+  // migrated from older SDK versions before first use)
+  const storage = createVersionedStorage(
+    config.storage ?? getDefaultStorageAdapter(),
+    config.appId
+  );
+
   // Create HTTP client
   const http = createHttpClient({
     appId: config.appId,
     publicKey: config.publicKey,
+    environment: config.environment ?? "production",
+    retry: config.retry ?? {},
+    storage,
   });
 
+  // Pinned keys for the signed status envelope (undefined = signing not enforced)
+  const verificationKeys = config.verificationKeys;
+
+  // Status cache policy
+  const cacheTtlMs = config.cache?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const maxStaleMs = config.cache?.maxStaleMs ?? DEFAULT_MAX_STALE_MS;
+  const offlineGraceMs = config.cache?.offlineGraceMs ?? DEFAULT_OFFLINE_GRACE_MS;
+  // Longest a cached status is served offline (and a signed envelope trusted past its exp)
+  const offlineWindowMs = Math.max(maxStaleMs, offlineGraceMs);
+
+  // Broker mode: UI clients ask the service worker's client instead of the API
+  const brokerEnabled = config.broker !== undefined && config.broker !== false;
+  const brokerTimeoutMs =
+    (typeof config.broker === "object" ? config.broker.timeoutMs : undefined) ??
+    DEFAULT_BROKER_TIMEOUT_MS;
+
+  // Origins whose pages may report a checkout return (the hosted checkout + extras)
+  const checkoutOrigins = [
+    new URL(resolveApiOrigin(config.environment)).origin,
+    ...(config.checkoutOrigins ?? []).map((origin) => new URL(origin).origin),
+  ];
+
   // Internal state
   let currentStatus: UserStatus | null = null;
+  let currentMeta: Omit<StatusMeta, "isStale"> | null = null;
   const handlers = new Set<StatusChangeHandler>();
+  const lifecycleHandlers = new Map<LifecycleEventType, Set<LifecycleEventHandler>>();
   let autoSyncState = createAutoSyncState();
 
+  /**
+   * Update the in-memory status and where it came from
+   */
+  const setCurrentStatus = (
+    status: UserStatus,
+    fetchedAt: number,
+    source: StatusMeta["source"] = "api"
+  ): void => {
+    currentStatus = status;
+    currentMeta = { fetchedAt, source };
+  };
+
+  /**
+   * Metadata for the in-memory status
+   */
+  const getCurrentMeta = (): StatusMeta | null => {
+    if (!currentMeta) return null;
+
+    return {
+      ...currentMeta,
+      isStale: currentMeta.source === "api" && Date.now() - currentMeta.fetchedAt > cacheTtlMs,
+    };
+  };
+
   /**
    * Update AutoSync state immutably
    */
@@ -110,20 +366,47 @@ export function createBillingExtensionsClient(
   /**
    * Notify all registered handlers of status change
    */
-  const notifyHandlers = (next: UserStatus, prev: UserStatus | null) => {
+  const notifyHandlers = (next: UserStatus, prev: UserStatus | null, changeId: string) => {
     const diff = computeStatusDiff(prev, next);
 
     // Don't notify if nothing meaningful changed
-    if (prev !== null && !hasAnyChange(diff)) {
-      return;
+    if (prev === null || hasAnyChange(diff)) {
+      for (const handler of handlers) {
+        try {
+          handler(next, prev, diff);
+        } catch {
+          // Don't let handler errors break the SDK
+        }
+      }
     }
 
-    for (const handler of handlers) {
-      try {
-        handler(next, prev, diff);
-      } catch {
-        // Don't let handler errors break the SDK
-      }
+    emitLifecycleEvents(next, prev, changeId);
+  };
+
+  /**
+   * Emit lifecycle events for a status transition
+   *
+   * Every context sees the change, so each event is claimed first and only the
+   * claiming context runs its handlers. Contexts without handlers for an event
+   * don't compete for it.
+   */
+  const emitLifecycleEvents = (next: UserStatus, prev: UserStatus | null, changeId: string) => {
+    if (prev === null) return;
+
+    for (const type of computeLifecycleEvents(prev, next)) {
+      if (!lifecycleHandlers.get(type)?.size) continue;
+
+      void claimLifecycleEvent(storage, `${type}:${changeId}`).then((claimed) => {
+        if (!claimed) return;
+
+        for (const handler of lifecycleHandlers.get(type) ?? []) {
+          try {
+            handler({ type, status: next, prev });
+          } catch {
+            // Don't let handler errors break the SDK
+          }
+        }
+      });
     }
   };
 
@@ -131,11 +414,10 @@ export function createBillingExtensionsClient(
 
 const attachStorageStatusListener = () => {
   if (storageListenerAttached) return;
-  if (typeof chrome === "undefined" || !chrome.storage?.onChanged) return;
 
   storageListenerAttached = true;
 
-  chrome.storage.onChanged.addListener((changes) => {
+  storage.subscribe((changes) => {
     const change = changes[STATUS_CACHE_KEY];
     if (!change?.newValue) return;
 
@@ -147,82 +429,366 @@ const attachStorageStatusListener = () => {
     // already updated currentStatus in-memory before this listener fired.
     const oldCached = change.oldValue as CachedStatus | undefined;
     const prev = oldCached?.status ?? null;
-    const next = cached.status;
 
-    currentStatus = next;
-    notifyHandlers(next, prev);
+    void (async () => {
+      // Never adopt a status written to storage that doesn't verify. Within the
+      // offline window an expired envelope still does (e.g. a period-end expiry).
+      const next = await trustCachedStatus(cached, offlineWindowMs);
+      if (next === null) return;
+
+      setCurrentStatus(next, cached.fetchedAt);
+
+      if (backgroundTrackingEnabled) {
+        syncPeriodEndAlarm(next);
+      }
+
+      // A 304 revalidation only bumps fetchedAt - the status itself is unchanged
+      if (oldCached?.etag !== undefined && oldCached.etag === cached.etag) {
+        return;
+      }
+
+      // Identifies this write in every context that sees it
+      notifyHandlers(next, prev, `${cached.fetchedAt}:${cached.expiredAt ?? ""}`);
+    })();
   });
 };
 
 attachStorageStatusListener();
 
   /**
-   * Load cached status from storage (session preferred, local fallback)
+   * App and user a signed envelope or license must be bound to
+   */
+  const getExpectedClaims = async () => ({
+    appId: config.appId,
+    extensionUserId: await getOrCreateExtensionUserId(storage),
+  });
+
+  /**
+   * Verify a signed status envelope against the pinned verification keys
+   */
+  const verifyEnvelope = async (signedStatus: string, expiredGraceMs = 0): Promise<UserStatus> => {
+    return verifySignedStatus(
+      signedStatus,
+      verificationKeys ?? [],
+      await getExpectedClaims(),
+      expiredGraceMs
+    );
+  };
+
+  /**
+   * Status granted by the persisted license, or null if none verifies
    */
-  const loadCachedStatus = async (): Promise<UserStatus | null> => {
+  const loadLicenseStatus = async (): Promise<UserStatus | null> => {
+    if (!verificationKeys) return null;
+
     try {
-      const cached = await getFromBestStorage<CachedStatus>(STATUS_CACHE_KEY);
+      const stored = await getStoredLicense(storage);
+      if (!stored) return null;
+
+      const claims = await verifyLicense(
+        stored.license,
+        verificationKeys,
+        await getExpectedClaims()
+      );
+      return licenseToStatus(claims);
+    } catch {
+      return null;
+    }
+  };
 
-      if (!cached) {
-        return null;
-      }
+  /**
+   * Get the status a cache entry can be trusted for, or null
+   *
+   * Without verificationKeys the stored status is trusted as-is. With them,
+   * only the status inside a valid signed envelope is, and only until its exp
+   * plus expiredGraceMs.
+   */
+  const trustCachedStatus = async (
+    cached: CachedStatus,
+    expiredGraceMs = 0
+  ): Promise<UserStatus | null> => {
+    if (!verificationKeys) return cached.status;
+    if (!cached.signedStatus) return null;
 
-      // Check if cache is stale
-      const age = Date.now() - cached.fetchedAt;
-      if (age > DEFAULT_CACHE_TTL_MS) {
-        return null;
-      }
+    try {
+      const status = await verifyEnvelope(cached.signedStatus, expiredGraceMs);
+
+      // Expiring locally can only downgrade the signed status
+      return cached.expiredAt !== undefined ? expireStatus(status) : status;
+    } catch {
+      return null;
+    }
+  };
+
+  /**
+   * Take the trusted status (and envelope) from an API status response
+   */
+  const verifyStatusResponse = async (
+    data: UserStatusResponse
+  ): Promise<{ status: UserStatus; signedStatus?: string }> => {
+    if (!verificationKeys) return { status: data };
+
+    if (!data.signedStatus) {
+      throw createInvalidTokenError("Status response is not signed");
+    }
+
+    return { status: await verifyEnvelope(data.signedStatus), signedStatus: data.signedStatus };
+  };
+
+  /**
+   * Drop a cache entry that failed verification
+   */
+  const discardCachedStatus = async (): Promise<void> => {
+    try {
+      await removeFromSessionStorage(storage, STATUS_CACHE_KEY);
+    } catch {
+      // Storage errors shouldn't break the SDK
+    }
+  };
 
-      return cached.status;
+  /**
+   * Read the cached status entry, regardless of age
+   */
+  const readCachedStatus = async (): Promise<CachedStatus | null> => {
+    try {
+      return (await getFromBestStorage<CachedStatus>(storage, STATUS_CACHE_KEY)) ?? null;
     } catch {
       // Storage errors shouldn't break the SDK
       return null;
     }
   };
 
+  /**
+   * Load cached status from storage (session preferred, local fallback)
+   */
+  const loadCachedStatus = async (): Promise<CachedStatus | null> => {
+    const cached = await readCachedStatus();
+
+    if (!cached) {
+      return null;
+    }
+
+    // Check if cache is stale
+    const age = Date.now() - cached.fetchedAt;
+    if (age > cacheTtlMs) {
+      return null;
+    }
+
+    // Expired envelope - refetch, but keep it while it's usable offline.
+    // Tampered (or past even the offline window) - discard.
+    const status = await trustCachedStatus(cached);
+    if (status === null) {
+      if ((await trustCachedStatus(cached, offlineWindowMs)) === null) {
+        await discardCachedStatus();
+      }
+      return null;
+    }
+
+    return { ...cached, status };
+  };
+
+  /**
+   * Status to serve when a refresh failed because the API is unreachable
+   *
+   * Stale cache within maxStaleMs (or offlineGraceMs for paid users), then an
+   * activated license, then the onGraceExpired policy. Null means fail.
+   */
+  const loadOfflineStatus = async (error: BillingExtensionsError): Promise<UserStatus | null> => {
+    const cached = await readCachedStatus();
+    // A validly signed envelope stays usable offline after its exp
+    const trusted = cached ? await trustCachedStatus(cached, offlineWindowMs) : null;
+
+    if (cached && trusted) {
+      const staleMs = Date.now() - cached.fetchedAt - cacheTtlMs;
+      const allowedMs = trusted.paid ? Math.max(maxStaleMs, offlineGraceMs) : maxStaleMs;
+      if (staleMs <= allowedMs) {
+        setCurrentStatus(trusted, cached.fetchedAt);
+        return trusted;
+      }
+    }
+
+    const licensed = await loadLicenseStatus();
+    if (licensed !== null) {
+      setCurrentStatus(licensed, Date.now(), "license");
+      return licensed;
+    }
+
+    const onGraceExpired = config.cache?.onGraceExpired;
+    if (cached && trusted?.paid && onGraceExpired) {
+      const decided = await onGraceExpired({ status: trusted, fetchedAt: cached.fetchedAt, error });
+      if (decided) {
+        setCurrentStatus(decided, cached.fetchedAt);
+        return decided;
+      }
+    }
+
+    return null;
+  };
+
   /**
    * Save status to cache (session preferred, local fallback)
    */
-  const saveCachedStatus = async (status: UserStatus): Promise<void> => {
+  const saveCachedStatus = async (
+    status: UserStatus,
+    validators: CacheValidators = {},
+    signedStatus?: string
+  ): Promise<void> => {
     try {
       const cached: CachedStatus = {
         status,
         fetchedAt: Date.now(),
+        ...validators,
       };
-      await setInBestStorage(STATUS_CACHE_KEY, cached);
+      if (signedStatus !== undefined) cached.signedStatus = signedStatus;
+      await setInBestStorage(storage, STATUS_CACHE_KEY, cached);
     } catch {
       // Storage errors shouldn't break the SDK
     }
   };
 
   /**
-   * Fetch status from API
+   * Fetch status from API (conditional on the cached ETag / Last-Modified)
    */
-  const fetchStatus = async (): Promise<UserStatus> => {
-    const response = await http.get<UserStatusResponse>("api/v1/sdk/user");
-    return response;
+  const fetchStatus = async (cached: CachedStatus | null) => {
+    return http.getConditional<UserStatusResponse>(
+      "api/v1/sdk/user",
+      cached ? getStoredValidators(cached) : undefined,
+      validateUserStatus
+    );
   };
 
   /**
    * Core refresh implementation
    * 
    * Note: We don't call notifyHandlers() here because saveCachedStatus() writes
-   * to chrome.storage, which triggers the storage.onChanged listener. That listener
+   * to storage, which triggers the storage.subscribe() listener. That listener
    * is the single source of truth for notifying handlers - this ensures all tabs
    * get notified consistently and we don't get duplicate notifications.
    */
   const doRefresh = async (): Promise<UserStatus> => {
-    const next = await fetchStatus();
+    const stored = await readCachedStatus();
+
+    // Only revalidate an entry we trust - otherwise fetch unconditionally. No
+    // offline grace here: an expired envelope must be replaced by a fresh one.
+    const trusted = stored ? await trustCachedStatus(stored) : null;
+    const cached = stored && trusted ? stored : null;
+    const result = await fetchStatus(cached);
+
+    if (result.notModified) {
+      if (!cached || !trusted) {
+        throw createRuntimeError("Received 304 Not Modified without a cached status");
+      }
+
+      // Still fresh - bump fetchedAt only (the storage listener won't notify for this)
+      setCurrentStatus(trusted, Date.now());
+      await saveCachedStatus(
+        trusted,
+        { ...getStoredValidators(cached), ...result.validators },
+        cached.signedStatus
+      );
+
+      return trusted;
+    }
+
+    const { status: next, signedStatus } = await verifyStatusResponse(result.data);
 
     // Update current status
-    currentStatus = next;
+    setCurrentStatus(next, Date.now());
 
-    // Cache the new status - this triggers storage.onChanged which notifies handlers
-    await saveCachedStatus(next);
+    // Cache the new status - this triggers the storage listener which notifies handlers
+    await saveCachedStatus(next, result.validators, signedStatus);
 
     return next;
   };
 
+/**
+ * Broker mode
+ *
+ * The service worker's client (once enableBackgroundStatusTracking() has run)
+ * answers getUser/refresh/getPlans for UI-page clients created with
+ * config.broker. Proxies fall back to fetching directly if no worker answers.
+ */
+let servingAsBroker = false;
+
+type BrokerStatusResult = { status: UserStatus; meta: StatusMeta | null };
+
+/**
+ * Ask the service worker; undefined means "no answer - do it yourself"
+ */
+const callBroker = async <T>(method: BrokerMethod, forceRefresh?: boolean): Promise<T | undefined> => {
+  if (!brokerEnabled || servingAsBroker) return undefined;
+
+  const request: BrokerRequest = { type: BROKER_MESSAGE, method };
+  if (forceRefresh !== undefined) request.forceRefresh = forceRefresh;
+
+  const response = await sendBrokerRequest(request, brokerTimeoutMs);
+  if (response === null) return undefined;
+  if (!response.ok) throw deserializeError(response.error);
+
+  return response.result as T;
+};
+
+/**
+ * Adopt a status the broker returned
+ */
+const adoptBrokerStatus = ({ status, meta }: BrokerStatusResult): UserStatus => {
+  setCurrentStatus(status, meta?.fetchedAt ?? Date.now(), meta?.source ?? "api");
+  return status;
+};
+
+/**
+ * Answer a broker request from a UI-page client
+ */
+const handleBrokerRequest = async (request: BrokerRequest): Promise<BrokerResponse> => {
+  try {
+    switch (request.method) {
+      case "getUser": {
+        const status = await client.getUser({ forceRefresh: request.forceRefresh === true });
+        return { ok: true, result: { status, meta: getCurrentMeta() } };
+      }
+      case "refresh": {
+        const status = await refreshStatus();
+        return { ok: true, result: { status, meta: getCurrentMeta() } };
+      }
+      case "getPlans": {
+        const plans = await client.getPlans({ forceRefresh: request.forceRefresh === true });
+        return { ok: true, result: plans };
+      }
+      case "recordUsage": {
+        const increments = request.increments ?? {};
+        if (Object.values(increments).some((amount) => !Number.isFinite(amount) || amount <= 0)) {
+          throw createConfigError("amount must be a positive finite number");
+        }
+        // The storage listener schedules the flush
+        await addPendingUsage(storage, increments);
+        return { ok: true, result: null };
+      }
+    }
+  } catch (error) {
+    return { ok: false, error: serializeError(normalizeError(error)) };
+  }
+};
+
+/**
+ * Refresh status once for all concurrent callers (via the broker if enabled)
+ */
+let statusRefreshInFlight: Promise<UserStatus> | null = null;
+
+const refreshStatus = (): Promise<UserStatus> => {
+  if (statusRefreshInFlight) return statusRefreshInFlight;
+
+  statusRefreshInFlight = (async () => {
+    try {
+      const brokered = await callBroker<BrokerStatusResult>("refresh");
+      return brokered ? adoptBrokerStatus(brokered) : await doRefresh();
+    } finally {
+      statusRefreshInFlight = null;
+    }
+  })();
+
+  return statusRefreshInFlight;
+};
+
 /**
  * Wrapper for AutoSync refresh (doesn't throw) + dedupes in-flight requests
  */
@@ -233,7 +799,7 @@ const autoSyncRefresh = async (): Promise<void> => {
 
   refreshInFlight = (async () => {
     try {
-      await doRefresh();
+      await refreshStatus();
     } catch {
       // AutoSync errors are silent
     } finally {
@@ -252,13 +818,13 @@ const schedulePaidSWRRevalidate = (): void => {
 
   swrCheckInFlight = (async () => {
     try {
-      const last = (await getFromBestStorage<number>(LAST_SWR_AT_KEY)) ?? 0;
+      const last = (await getFromBestStorage<number>(storage, LAST_SWR_AT_KEY)) ?? 0;
       const now = Date.now();
 
       if (now - last < SWR_COOLDOWN_MS) return;
 
       // persist before refresh so rapid reopens don't spam
-      await setInBestStorage(LAST_SWR_AT_KEY, now);
+      await setInBestStorage(storage, LAST_SWR_AT_KEY, now);
 
       // silent refresh (deduped)
       await autoSyncRefresh();
@@ -270,6 +836,355 @@ const schedulePaidSWRRevalidate = (): void => {
   })();
 };
 
+/**
+ * Usage flushing (service worker only)
+ *
+ * Any context can record usage into storage; the background client reports the
+ * batch and caches the reconciled status the API returns, which fires usageChanged.
+ */
+let usageFlushTimer: ReturnType<typeof setTimeout> | null = null;
+let usageFlushFailed = false;
+
+/**
+ * Check whether reporting a batch failed for good (retrying can't help)
+ */
+const isPermanentUsageFailure = (error: unknown): boolean => {
+  if (!isBillingExtensionsError(error)) return false;
+  if (error.type === "InvalidResponse") return true;
+
+  // 2xx: recorded, but the body was unusable. 4xx (but 408/429): rejected for good.
+  const { status } = error;
+  return status !== undefined && status < 500 && status !== 408 && status !== 429;
+};
+
+const flushUsage = async (): Promise<void> => {
+  // The batch keeps counting in getUsage() until it's settled below
+  const batch = await markUsageInFlight(storage);
+  const events = Object.entries(batch)
+    .filter(([, amount]) => amount > 0)
+    .map(([metric, amount]) => ({ metric, amount }));
+
+  if (events.length === 0) {
+    // Nothing to report (e.g. only zero increments) - don't leave it in flight
+    if (Object.keys(batch).length > 0) await settleInFlightUsage(storage);
+    return;
+  }
+
+  let response: UserStatusResponse;
+  try {
+    response = await http.post<UserStatusResponse>(
+      "api/v1/sdk/usage",
+      { events },
+      validateUserStatus
+    );
+    usageFlushFailed = false;
+  } catch (error) {
+    // Re-sending a batch the API rejected (or already recorded) can't help - drop it
+    if (isPermanentUsageFailure(error)) {
+      usageFlushFailed = false;
+      await settleInFlightUsage(storage);
+      return;
+    }
+
+    // Hand the batch back so it's reported on the next flush
+    usageFlushFailed = true;
+    await restoreInFlightUsage(storage);
+    return;
+  }
+
+  // The usage is recorded either way - an unverifiable status just isn't cached
+  try {
+    const { status: next, signedStatus } = await verifyStatusResponse(response);
+    setCurrentStatus(next, Date.now());
+    await saveCachedStatus(next, {}, signedStatus);
+  } catch {
+    // Next refresh picks up the reconciled status
+  }
+
+  await settleInFlightUsage(storage);
+};
+
+const scheduleUsageFlush = (): void => {
+  if (usageFlushTimer !== null) return;
+
+  usageFlushTimer = setTimeout(
+    () => {
+      usageFlushTimer = null;
+      flushUsage().catch(() => {
+        // Storage failures shouldn't break the SDK
+      });
+    },
+    usageFlushFailed ? USAGE_FLUSH_RETRY_MS : USAGE_FLUSH_DELAY_MS
+  );
+};
+
+/**
+ * Checkout cancellations (any context)
+ *
+ * The content script reports cancelled or failed checkouts from a billing-origin
+ * tab, so pending waitFor() calls reject right away instead of timing out.
+ */
+const checkoutCancelHandlers = new Set<() => void>();
+let cancelListenerAttached = false;
+
+const attachCheckoutCancelListener = (): void => {
+  if (cancelListenerAttached) return;
+
+  const api = getExtensionApi();
+  if (!api?.runtime.onMessage) return;
+  cancelListenerAttached = true;
+
+  api.runtime.onMessage.addListener((msg, sender) => {
+    if (isCheckoutCancelledMessage(msg) && isAllowedCheckoutSender(sender, checkoutOrigins)) {
+      for (const handler of [...checkoutCancelHandlers]) handler();
+    }
+    return false;
+  });
+};
+
+/**
+ * Wait for a matching status
+ *
+ * Listens through the same handler set as onStatusChanged (fed by the storage
+ * listener) and polls via the deduped autoSyncRefresh in the meantime.
+ */
+const waitForStatus = (
+  predicate: (status: UserStatus) => boolean,
+  opts: WaitForOptions = {}
+): Promise<UserStatus> => {
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const requestedPollIntervalMs = opts.pollIntervalMs ?? DEFAULT_WAIT_POLL_INTERVAL_MS;
+  const pollIntervalMs = Math.max(requestedPollIntervalMs, MIN_WAIT_POLL_INTERVAL_MS);
+  const { signal } = opts;
+
+  if (typeof predicate !== "function") {
+    return Promise.reject(createConfigError("predicate must be a function"));
+  }
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    return Promise.reject(createConfigError("timeoutMs must be a positive number"));
+  }
+  if (!Number.isFinite(requestedPollIntervalMs) || requestedPollIntervalMs <= 0) {
+    return Promise.reject(createConfigError("pollIntervalMs must be a positive number"));
+  }
+
+  return new Promise<UserStatus>((resolve, reject) => {
+    let settled = false;
+    const timers: {
+      poll?: ReturnType<typeof setInterval>;
+      timeout?: ReturnType<typeof setTimeout>;
+    } = {};
+
+    const finish = () => {
+      settled = true;
+      clearInterval(timers.poll);
+      clearTimeout(timers.timeout);
+      handlers.delete(onChange);
+      checkoutCancelHandlers.delete(onCancel);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const check = (status: UserStatus | null) => {
+      if (settled || status === null) return;
+
+      let matched: boolean;
+      try {
+        matched = predicate(status);
+      } catch (error) {
+        finish();
+        reject(normalizeError(error));
+        return;
+      }
+
+      if (matched) {
+        finish();
+        resolve(status);
+      }
+    };
+
+    const onChange: StatusChangeHandler = (next) => check(next);
+
+    const onAbort = () => {
+      finish();
+      reject(createAbortedError("waitFor was aborted", signal?.reason));
+    };
+
+    const onCancel = () => {
+      finish();
+      reject(createCheckoutCancelledError("Checkout was cancelled"));
+    };
+
+    const poll = () => {
+      void autoSyncRefresh().then(() => check(currentStatus));
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    handlers.add(onChange);
+    check(currentStatus);
+    if (settled) return;
+
+    attachCheckoutCancelListener();
+    checkoutCancelHandlers.add(onCancel);
+
+    poll();
+    timers.poll = setInterval(poll, pollIntervalMs);
+    timers.timeout = setTimeout(() => {
+      finish();
+      reject(createTimeoutError(`Status did not match within ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+};
+
+/**
+ * Create a paywall session and open its hosted page in a new tab
+ * (shared by openCheckout and openManageBilling)
+ */
+const openPaywallSession = async (path: string, body?: unknown): Promise<void> => {
+  const response = await http.post<PaywallSessionResponse>(path, body, validatePaywallSession);
+
+  // Only checkout returns matching this session trigger a background refresh
+  await rememberPaywallSession(storage, response.token).catch(() => {
+    // Storage errors shouldn't block checkout
+  });
+
+  await openUrl(response.url);
+
+  // Mark that we should refresh on next focus
+  markPendingPostActionRefresh(updateAutoSyncState);
+};
+
+/**
+ * Identity token (in memory only - tokens are short-lived)
+ */
+let identityToken: IdentityTokenResponse | null = null;
+let identityTokenInFlight: Promise<string> | null = null;
+
+const fetchIdentityToken = async (): Promise<string> => {
+  if (identityToken) {
+    const expiresAt = Date.parse(identityToken.expiresAt);
+    if (expiresAt - IDENTITY_TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return identityToken.token;
+    }
+    identityToken = null;
+  }
+
+  if (identityTokenInFlight) return identityTokenInFlight;
+
+  identityTokenInFlight = (async () => {
+    try {
+      const response = await http.post<IdentityTokenResponse>(
+        "api/v1/sdk/identity-token",
+        undefined,
+        validateIdentityToken
+      );
+      identityToken = response;
+      return response.token;
+    } finally {
+      identityTokenInFlight = null;
+    }
+  })();
+
+  return identityTokenInFlight;
+};
+
+/**
+ * Period-end expiry (service worker only)
+ *
+ * An alarm at currentPeriodEnd forces a refresh. If the API can't be reached
+ * then and the subscription was set to cancel, the cached status is expired
+ * locally, which fires onStatusChanged in every context.
+ */
+const syncPeriodEndAlarm = (status: UserStatus | null): void => {
+  schedulePeriodEndAlarm(status).catch(() => {
+    // Missing "alarms" permission or alarm errors shouldn't break the SDK
+  });
+};
+
+const expireCachedStatus = async (): Promise<void> => {
+  const cached = await readCachedStatus();
+  // Same grace as loadOfflineStatus, so whatever is served offline gets expired
+  const trusted = cached ? await trustCachedStatus(cached, offlineWindowMs) : null;
+  if (!cached || !trusted || !shouldExpireAtPeriodEnd(trusted)) return;
+
+  // Drop the HTTP validators so the next refresh fetches the full status
+  const expired: CachedStatus = {
+    status: expireStatus(trusted),
+    fetchedAt: cached.fetchedAt,
+    expiredAt: Date.now(),
+  };
+  if (cached.signedStatus !== undefined) expired.signedStatus = cached.signedStatus;
+
+  try {
+    await setInBestStorage(storage, STATUS_CACHE_KEY, expired);
+  } catch {
+    // Storage errors shouldn't break the SDK
+  }
+};
+
+const handlePeriodEnd = async (): Promise<void> => {
+  try {
+    await doRefresh();
+  } catch (error) {
+    if (isBillingExtensionsError(error) && error.type === "NetworkError") {
+      await expireCachedStatus();
+    }
+  }
+};
+
+/**
+ * Periodic background refresh (service worker only, opt-in)
+ *
+ * Goes through autoSyncRefresh so it dedupes with every other refresh. While
+ * the user is idle the refresh is skipped; it's caught up when they return.
+ */
+const handleBackgroundRefresh = async (intervalMinutes: number): Promise<void> => {
+  await scheduleBackgroundRefreshAlarm(intervalMinutes).catch(() => {
+    // Alarm errors shouldn't break the SDK
+  });
+
+  if (await isUserIdle()) return;
+
+  await autoSyncRefresh();
+};
+
+const refreshIfOlderThan = async (maxAgeMs: number): Promise<void> => {
+  const cached = await readCachedStatus();
+  if (!cached || Date.now() - cached.fetchedAt >= maxAgeMs) {
+    await autoSyncRefresh();
+  }
+};
+
+/**
+ * Checkout return (service worker only)
+ *
+ * Refreshes only for a current-version envelope from one of this extension's
+ * tabs on a billing origin, matching a paywall session we created (by token, or
+ * the most recent one for tokenless custom success URLs), at most once per tab
+ * per CHECKOUT_RETURN_RATE_LIMIT_MS.
+ */
+const allowCheckoutReturn = createTabRateLimiter(CHECKOUT_RETURN_RATE_LIMIT_MS);
+
+const handleCheckoutReturn = async (
+  msg: unknown,
+  sender: chrome.runtime.MessageSender
+): Promise<boolean> => {
+  if (!isValidCheckoutReturn(msg)) return false;
+  if (!isAllowedCheckoutSender(sender, checkoutOrigins)) return false;
+
+  const tabId = sender.tab?.id;
+  if (tabId === undefined || !allowCheckoutReturn(tabId)) return false;
+
+  const known = await consumePaywallSession(storage, msg.sessionToken).catch(() => false);
+  if (!known) return false;
+
+  void autoSyncRefresh(); // silently refresh + write cache + notify
+  return true;
+};
+
   // Background tracking state
 let backgroundTrackingEnabled = false;
 let messageListenerAttached = false;
@@ -279,25 +1194,89 @@ let messageListenerAttached = false;
  * - Warms the cache with an initial refresh so getUser() is fast when popup opens
  * - Listens for content-script "checkout returned" message (for instant post-checkout updates)
  */
-const enableBackgroundStatusTracking = (): void => {
+const enableBackgroundStatusTracking = (opts: BackgroundTrackingOptions = {}): void => {
+  const intervalMinutes = opts.backgroundRefreshIntervalMinutes;
+  if (intervalMinutes !== undefined && (!Number.isFinite(intervalMinutes) || intervalMinutes < 1)) {
+    throw createConfigError("backgroundRefreshIntervalMinutes must be a number >= 1");
+  }
+
   if (backgroundTrackingEnabled) return;
   backgroundTrackingEnabled = true;
+  servingAsBroker = true;
+
+  const api = getExtensionApi();
 
   // 1) Instant refresh trigger via message from content script
-  if (typeof chrome !== "undefined" && chrome.runtime?.onMessage && !messageListenerAttached) {
+  if (api?.runtime.onMessage && !messageListenerAttached) {
     messageListenerAttached = true;
 
-    chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
-      if (msg?.type === CHECKOUT_RETURN_MESSAGE) {
-        void autoSyncRefresh(); // silently refresh + write cache + notify
-        sendResponse?.({ ok: true });
+    api.runtime.onMessage.addListener((msg, sender, sendResponse) => {
+      // Broker requests from this extension's UI pages
+      if (isBrokerRequest(msg)) {
+        if (sender.id !== getRuntimeId()) return false;
+
+        void handleBrokerRequest(msg).then(sendResponse);
+        return true;
+      }
+
+      // Checkout returns from the optional content script
+      if (isCheckoutReturnMessage(msg)) {
+        void handleCheckoutReturn(msg, sender).then((ok) => sendResponse({ ok }));
         return true;
       }
       return false;
     });
   }
 
-  // 2) Kick once so cache is warm
+  // 2) Flush usage recorded by other contexts (UI pages, content scripts)
+  storage.subscribe((changes, area) => {
+    if (area !== "local") return;
+
+    const pending = changes[PENDING_USAGE_KEY]?.newValue as PendingUsage | undefined;
+    if (pending && Object.keys(pending).length > 0) {
+      scheduleUsageFlush();
+    }
+  });
+
+  // Report anything left over from before the service worker restarted
+  scheduleUsageFlush();
+
+  // 3) Refresh (or expire) when the billing period ends, and on the opt-in interval
+  const alarms = getAlarmsApi();
+  if (alarms) {
+    alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === PERIOD_END_ALARM) {
+        void handlePeriodEnd();
+      } else if (alarm.name === BACKGROUND_REFRESH_ALARM && intervalMinutes !== undefined) {
+        void handleBackgroundRefresh(intervalMinutes);
+      }
+    });
+
+    void readCachedStatus()
+      .then((cached) => (cached ? trustCachedStatus(cached, offlineWindowMs) : null))
+      .then(syncPeriodEndAlarm);
+
+    const alarmResult =
+      intervalMinutes !== undefined
+        ? scheduleBackgroundRefreshAlarm(intervalMinutes)
+        : clearBackgroundRefreshAlarm();
+    alarmResult.catch(() => {
+      // Alarm errors shouldn't break the SDK
+    });
+
+    // Catch up on refreshes skipped while the user was away
+    const idle = getIdleApi();
+    if (intervalMinutes !== undefined && idle) {
+      idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+      idle.onStateChanged.addListener((state) => {
+        if (state === "active") {
+          void refreshIfOlderThan(intervalMinutes * 60 * 1000);
+        }
+      });
+    }
+  }
+
+  // 4) Kick once so cache is warm
   void autoSyncRefresh();
 };
 
@@ -315,23 +1294,38 @@ const enableBackgroundStatusTracking = (): void => {
           return currentStatus;
         }
 
+        // Broker mode - the service worker answers from its cache or fetches once for everyone
+        const brokered = await callBroker<BrokerStatusResult>("getUser", forceRefresh);
+        if (brokered) {
+          return adoptBrokerStatus(brokered);
+        }
+
         // Try to load from storage cache
         if (!forceRefresh) {
           const cached = await loadCachedStatus();
           if (cached !== null) {
-            currentStatus = cached;
+            setCurrentStatus(cached.status, cached.fetchedAt);
           
             // SWR only when cache says paid (fixes paid->unpaid needing 2 opens)
             // if (cached.paid === true) {
               schedulePaidSWRRevalidate();
             // }
           
-            return cached;
+            return cached.status;
           }
         }
 
         // Fetch from API
-        return await doRefresh();
+        try {
+          return await doRefresh();
+        } catch (error) {
+          // Offline - serve stale cache / license per the cache policy
+          if (isBillingExtensionsError(error) && error.type === "NetworkError") {
+            const offline = await loadOfflineStatus(error);
+            if (offline !== null) return offline;
+          }
+          throw error;
+        }
       } catch (error) {
         const e = error as any;
 
@@ -348,7 +1342,7 @@ const enableBackgroundStatusTracking = (): void => {
 
     async refresh(): Promise<UserStatus> {
       try {
-        return await doRefresh();
+        return await refreshStatus();
       } catch (error) {
         throw normalizeError(error);
       }
@@ -356,17 +1350,128 @@ const enableBackgroundStatusTracking = (): void => {
 
     async openManageBilling(): Promise<void> {
       try {
-        const response = await http.post<PaywallSessionResponse>("api/v1/sdk/paywall-sessions");
+        await openPaywallSession("api/v1/sdk/paywall-sessions");
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    async openCheckout(opts: OpenCheckoutOptions): Promise<void> {
+      try {
+        if (!opts?.planId || typeof opts.planId !== "string") {
+          throw createConfigError("planId is required and must be a non-empty string");
+        }
+
+        await openPaywallSession("api/v1/sdk/paywall-sessions", {
+          planId: opts.planId,
+          promoCode: opts.promoCode,
+          email: opts.email,
+          locale: opts.locale,
+          successUrl: opts.successUrl,
+          cancelUrl: opts.cancelUrl,
+        });
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    async getIdentityToken(): Promise<string> {
+      try {
+        return await fetchIdentityToken();
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    async activateLicense(key: string): Promise<UserStatus> {
+      try {
+        if (!key || typeof key !== "string") {
+          throw createConfigError("key is required and must be a non-empty string");
+        }
+        if (!verificationKeys) {
+          throw createConfigError("verificationKeys is required to activate licenses");
+        }
+
+        const response = await http.post<LicenseActivationResponse>(
+          "api/v1/sdk/licenses/activate",
+          { licenseKey: key },
+          validateLicenseActivation
+        );
+
+        // Only persist a license we can verify offline later
+        await verifyLicense(response.license, verificationKeys, await getExpectedClaims());
+        await saveLicense(storage, response.license);
+
+        const { status, signedStatus } = await verifyStatusResponse(response.status);
+        setCurrentStatus(status, Date.now());
+        await saveCachedStatus(status, {}, signedStatus);
+
+        return status;
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    getStatusMeta(): StatusMeta | null {
+      return getCurrentMeta();
+    },
+
+    async recordUsage(metric: string, amount = 1): Promise<void> {
+      try {
+        if (!metric || typeof metric !== "string") {
+          throw createConfigError("metric is required and must be a non-empty string");
+        }
+        if (!Number.isFinite(amount) || amount <= 0) {
+          throw createConfigError("amount must be a positive finite number");
+        }
+
+        const increments = { [metric]: amount };
 
-        await openUrl(response.url);
+        // Hand it to the service worker so only one context writes the batch
+        if (!servingAsBroker) {
+          const response = await sendBrokerRequest(
+            { type: BROKER_MESSAGE, method: "recordUsage", increments },
+            brokerTimeoutMs
+          );
+          if (response?.ok) return;
+        }
 
-        // Mark that we should refresh on next focus
-        markPendingPostActionRefresh(updateAutoSyncState);
+        // No worker answered (or this is the worker)
+        await addPendingUsage(storage, increments);
+
+        // The service worker's storage listener picks this up from other contexts
+        if (backgroundTrackingEnabled) {
+          scheduleUsageFlush();
+        }
       } catch (error) {
         throw normalizeError(error);
       }
     },
 
+    async getUsage(metric: string): Promise<UsageQuota | null> {
+      try {
+        const status = await client.getUser();
+        const pending = await getPendingUsage(storage);
+        return computeUsageQuota(status, metric, pending);
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    hasFeature(feature: string): boolean {
+      return hasFeature(resolveEntitlements(config.entitlements, currentStatus), feature);
+    },
+
+    getLimit(key: string): number | undefined {
+      return getLimit(resolveEntitlements(config.entitlements, currentStatus), key);
+    },
+
+    requireFeature(feature: string): void {
+      if (!hasFeature(resolveEntitlements(config.entitlements, currentStatus), feature)) {
+        throw createEntitlementRequiredError(feature);
+      }
+    },
+
     onStatusChanged(handler: StatusChangeHandler): () => void {
       handlers.add(handler);
 
@@ -374,11 +1479,7 @@ const enableBackgroundStatusTracking = (): void => {
       // This ensures new subscribers don't miss updates from in-flight SWR
       if (currentStatus !== null) {
         try {
-          handler(currentStatus, null, {
-            entitlementChanged: true,
-            planChanged: currentStatus.plan != null,
-            usageChanged: false,
-          });
+          handler(currentStatus, null, computeStatusDiff(null, currentStatus));
         } catch {
           // Don't let handler errors break the SDK
         }
@@ -389,6 +1490,33 @@ const enableBackgroundStatusTracking = (): void => {
       };
     },
 
+    async waitFor(
+      predicate: (status: UserStatus) => boolean,
+      opts?: WaitForOptions
+    ): Promise<UserStatus> {
+      return waitForStatus(predicate, opts);
+    },
+
+    async waitForPaid(opts?: WaitForOptions): Promise<UserStatus> {
+      return waitForStatus((status) => status.paid, opts);
+    },
+
+    on<E extends LifecycleEventType>(event: E, handler: LifecycleEventHandler<E>): () => void {
+      let set = lifecycleHandlers.get(event);
+      if (!set) {
+        set = new Set();
+        lifecycleHandlers.set(event, set);
+      }
+
+      // Handlers are only ever called with events of the type they were registered for
+      const registered = handler as LifecycleEventHandler;
+      set.add(registered);
+
+      return () => {
+        set.delete(registered);
+      };
+    },
+
     enableAutoSync(opts?: AutoSyncOptions): void {
       // Update options if provided
       if (opts) {
@@ -402,8 +1530,8 @@ const enableBackgroundStatusTracking = (): void => {
       void activateAutoSync(getAutoSyncState, autoSyncRefresh, updateAutoSyncState);
     },
 
-    enableBackgroundStatusTracking(): void {
-      enableBackgroundStatusTracking();
+    enableBackgroundStatusTracking(opts?: BackgroundTrackingOptions): void {
+      enableBackgroundStatusTracking(opts);
     },
 
     disableAutoSync(): void {
@@ -411,10 +1539,48 @@ const enableBackgroundStatusTracking = (): void => {
       deactivateAutoSync(autoSyncState, updateAutoSyncState);
     },
 
-    async getPlans(): Promise<PlanForSDK[]> {
+    async getPlans(opts?: GetPlansOptions): Promise<PlanForSDK[]> {
       try {
-        const response = await http.get<PlanForSDK[]>("api/v1/sdk/plans");
-        return response;
+        const forceRefresh = opts?.forceRefresh === true;
+
+        const brokered = await callBroker<PlanForSDK[]>("getPlans", forceRefresh);
+        if (brokered) {
+          return brokered;
+        }
+
+        const cached = (await getFromBestStorage<CachedPlans>(storage, PLANS_CACHE_KEY)) ?? null;
+
+        // Return cached plans if not stale and not forcing refresh
+        if (!forceRefresh && cached && Date.now() - cached.fetchedAt <= DEFAULT_PLANS_CACHE_TTL_MS) {
+          return cached.plans;
+        }
+        const result = await http.getConditional<PlanForSDK[]>(
+          "api/v1/sdk/plans",
+          cached ? getStoredValidators(cached) : undefined,
+          validatePlans
+        );
+
+        if (result.notModified) {
+          if (!cached) {
+            throw createRuntimeError("Received 304 Not Modified without cached plans");
+          }
+
+          await setInBestStorage<CachedPlans>(storage, PLANS_CACHE_KEY, {
+            ...cached,
+            fetchedAt: Date.now(),
+            ...result.validators,
+          });
+
+          return cached.plans;
+        }
+
+        await setInBestStorage<CachedPlans>(storage, PLANS_CACHE_KEY, {
+          plans: result.data,
+          fetchedAt: Date.now(),
+          ...result.validators,
+        });
+
+        return result.data;
       } catch (error) {
         throw normalizeError(error);
       }
@@ -1,10 +1,111 @@
 import type { components } from "../generated/openapi-types";
+import type { PublicJwk } from "../core/jws.js";
+import type { BillingExtensionsError } from "../core/errors.js";
 /**
  * BillingExtensions SDK Public Types
  */
 
 // Re-export error types
-export type { BillingExtensionsError } from "../core/errors.js";
+export type { BillingExtensionsError, BillingExtensionsErrorType } from "../core/errors.js";
+export type { PublicJwk } from "../core/jws.js";
+
+/**
+ * API environment the client talks to
+ *
+ * - "production" (default): https://billingextensions.com
+ * - "staging": the BillingExtensions staging API
+ * - { origin }: a custom origin, e.g. a local mock server. Must be HTTPS unless
+ *   the extension is a development (unpacked) install.
+ */
+export type ApiEnvironment = "production" | "staging" | { origin: string };
+
+/**
+ * HTTP retry policy
+ *
+ * Retries network errors, timeouts and the listed status codes with exponential
+ * backoff. A Retry-After header overrides the computed delay.
+ */
+export type RetryPolicy = {
+  /** Maximum attempts including the first (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled each attempt (default: 500) */
+  baseDelayMs?: number;
+  /** Maximum delay between attempts in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Randomize delays between 0 and the computed backoff (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes to retry (default: [408, 429, 500, 502, 503, 504]) */
+  retryOnStatus?: number[];
+  /** HTTP methods to retry (default: ["GET"] - only idempotent requests) */
+  retryMethods?: Array<"GET" | "POST" | "PUT" | "DELETE">;
+};
+
+/**
+ * Features and limits granted by a plan
+ */
+export type PlanEntitlements = {
+  /** Feature keys unlocked by the plan */
+  features?: string[];
+  /** Numeric limits keyed by name (use Infinity for unlimited) */
+  limits?: Record<string, number>;
+};
+
+/**
+ * Declarative entitlement map
+ *
+ * Paid users whose plan ID isn't listed in `plans` get the `free` entitlements.
+ */
+export type EntitlementsConfig = {
+  /** Entitlements for users without a (mapped) paid plan */
+  free?: PlanEntitlements;
+  /** Entitlements keyed by plan ID */
+  plans: Record<string, PlanEntitlements>;
+};
+
+/**
+ * Status cache and offline policy
+ *
+ * Staleness is measured from the end of the TTL: an entry fetched 8 hours ago
+ * with a 6 hour TTL has been stale for 2 hours.
+ */
+export type StatusCacheOptions = {
+  /** How long a cached status is served without refetching in milliseconds (default: 6 hours) */
+  ttlMs?: number;
+  /** How long past the TTL any user's status is served while the API is unreachable (default: 24 hours) */
+  maxStaleMs?: number;
+  /** How long past the TTL paid users keep their cached status while offline (default: 7 days) */
+  offlineGraceMs?: number;
+  /**
+   * Decide what to serve once a paid user's offline grace period has run out.
+   * Return a status to serve it (e.g. a downgraded copy), or null to fail with
+   * the NetworkError (default).
+   */
+  onGraceExpired?: (context: GraceExpiredContext) => UserStatus | null | Promise<UserStatus | null>;
+};
+
+/**
+ * Passed to StatusCacheOptions.onGraceExpired
+ */
+export type GraceExpiredContext = {
+  /** Last known (expired) status */
+  status: UserStatus;
+  /** When it was fetched (Unix timestamp in milliseconds) */
+  fetchedAt: number;
+  /** Error from the failed refresh */
+  error: BillingExtensionsError;
+};
+
+/**
+ * Where the status from getUser() came from
+ */
+export type StatusMeta = {
+  /** When the status was fetched from the API (Unix timestamp in milliseconds) */
+  fetchedAt: number;
+  /** Whether it is older than the cache TTL (served while offline) */
+  isStale: boolean;
+  /** "api" for fetched/cached statuses, "license" for offline license statuses */
+  source: "api" | "license";
+};
 
 /**
  * Client configuration
@@ -14,6 +115,83 @@ export type BillingExtensionsClientConfig = {
   appId: string;
   /** Publishable public key */
   publicKey: string;
+  /** API environment (default: "production") */
+  environment?: ApiEnvironment;
+  /** HTTP retry policy, or false to disable retries */
+  retry?: RetryPolicy | false;
+  /** Map plan IDs to feature keys and limits (used by hasFeature/getLimit/requireFeature) */
+  entitlements?: EntitlementsConfig;
+  /**
+   * Pinned public keys (JWK) for the signed status envelope and offline
+   * licenses. When set, only statuses whose signature verifies are cached or
+   * trusted; tampered or expired cache entries are discarded and refetched.
+   */
+  verificationKeys?: PublicJwk[];
+  /** Status cache TTL and offline grace policy */
+  cache?: StatusCacheOptions;
+  /**
+   * Extra origins (besides the BillingExtensions API origin) whose pages may
+   * report a checkout return from the content script, e.g. a custom success page
+   */
+  checkoutOrigins?: string[];
+  /**
+   * Broker mode for UI pages: ask the service worker's client (which must call
+   * enableBackgroundStatusTracking()) for getUser/refresh/getPlans instead of
+   * calling the API, falling back to direct fetches if it doesn't answer.
+   */
+  broker?: boolean | BrokerOptions;
+  /**
+   * Where the SDK keeps the user ID, status cache and other state
+   * (default: browser.storage on Firefox/Safari, chrome.storage otherwise).
+   * Pass another adapter to run outside an extension, e.g.
+   * createMemoryStorageAdapter() in unit tests.
+   */
+  storage?: StorageAdapter;
+};
+
+/**
+ * Storage area: "local" persists, "session" is cleared when the browser closes
+ */
+export type StorageArea = "local" | "session";
+
+/**
+ * A changed key, as reported to StorageAdapter.subscribe listeners
+ */
+export type StorageChange = {
+  oldValue?: unknown;
+  newValue?: unknown;
+};
+
+/**
+ * Key-value storage backing the SDK
+ *
+ * Values must survive a JSON round trip. Adapters without a separate session
+ * area may store session keys in the local area.
+ */
+export interface StorageAdapter {
+  /** Read a key (undefined if missing) */
+  get<T>(area: StorageArea, key: string): Promise<T | undefined>;
+  /** Write a key */
+  set<T>(area: StorageArea, key: string, value: T): Promise<void>;
+  /** Delete a key */
+  remove(area: StorageArea, key: string): Promise<void>;
+  /**
+   * Listen for changes, including those made by other contexts sharing the
+   * storage (e.g. the service worker and the popup)
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    listener: (changes: Record<string, StorageChange>, area: StorageArea) => void
+  ): () => void;
+}
+
+/**
+ * Broker mode options
+ */
+export type BrokerOptions = {
+  /** How long to wait for the service worker before fetching directly in milliseconds (default: 10000) */
+  timeoutMs?: number;
 };
 
 /**
@@ -28,16 +206,56 @@ export type UserStatus = components["schemas"]["UserStatus"];
 
 export type PaywallSessionResponse = components["schemas"]["PaywallSessionResponse"];
 
+export type IdentityTokenResponse = components["schemas"]["IdentityTokenResponse"];
+
+export type LicenseActivationResponse = components["schemas"]["LicenseActivationResponse"];
+
+/**
+ * Server-side usage for a single metric
+ */
+export type UsageMetric = components["schemas"]["UsageMetric"];
+
+/**
+ * Quota for a metric, including usage recorded locally but not yet reported
+ */
+export type UsageQuota = {
+  metric: string;
+  /** Server-reported usage plus pending local increments */
+  used: number;
+  /** Local increments not yet reflected in the cached status (including a batch being reported) */
+  pending: number;
+  /** Units allowed per period, or null if unlimited */
+  limit: number | null;
+  /** Units left in the period, or null if unlimited */
+  remaining: number | null;
+  /** When the usage counter resets (ISO 8601) */
+  resetsAt: string | null;
+};
+
 /**
  * Status diff - describes what changed between two statuses
  */
 export type StatusDiff = {
   /** True if entitled status changed */
   entitlementChanged: boolean;
-  /** True if plan info changed (id, nickname, status, or currentPeriodEnd) */
+  /** True if plan info changed (id or name) */
   planChanged: boolean;
-  /** True if usage info changed (used, limit, or resetsAt) */
+  /** True if usage info changed (used, limit, or resetsAt of any metric) */
   usageChanged: boolean;
+  /** Every changed UserStatus field */
+  changes: StatusChange[];
+};
+
+/**
+ * A single changed field
+ */
+export type StatusChange = {
+  /** Dotted field path, e.g. "cancelAtPeriodEnd", "plan.id" or "usage.ai_requests.used" */
+  path: string;
+  /** Previous value (undefined if absent) */
+  from: unknown;
+  /** New value (undefined if absent) */
+  to: unknown;
 };
 
 /**
@@ -49,6 +267,42 @@ export type StatusChangeHandler = (
   diff: StatusDiff
 ) => void;
 
+/**
+ * Subscription lifecycle events
+ *
+ * - trialStarted: subscriptionStatus became "trialing"
+ * - subscribed: became "active" (new subscription or trial conversion)
+ * - pastDue: became "past_due" (payment failed)
+ * - cancellationScheduled: cancelAtPeriodEnd turned on
+ * - reactivated: cancelAtPeriodEnd turned off again before the period ended
+ * - expired: paid turned false (other than by becoming "past_due" - that's pastDue)
+ * - renewed: currentPeriodEnd moved forward on an existing subscription
+ */
+export type LifecycleEventType =
+  | "trialStarted"
+  | "subscribed"
+  | "pastDue"
+  | "cancellationScheduled"
+  | "reactivated"
+  | "expired"
+  | "renewed";
+
+/**
+ * Payload passed to lifecycle event handlers
+ */
+export type LifecycleEvent<E extends LifecycleEventType = LifecycleEventType> = {
+  type: E;
+  status: UserStatus;
+  prev: UserStatus;
+};
+
+/**
+ * Lifecycle event handler
+ */
+export type LifecycleEventHandler<E extends LifecycleEventType = LifecycleEventType> = (
+  event: LifecycleEvent<E>
+) => void;
+
 /**
  * AutoSync configuration options
  */
@@ -65,6 +319,31 @@ export type AutoSyncOptions = {
   minIntervalMs?: number;
 };
 
+/**
+ * Background tracking options
+ */
+export type BackgroundTrackingOptions = {
+  /**
+   * Refresh status every N minutes (±10% jitter) from the service worker using
+   * chrome.alarms (requires the "alarms" permission). Refreshes are skipped
+   * while the user is idle or the screen is locked (if the "idle" permission is
+   * granted) and caught up when they return. Minimum 1. Off by default.
+   */
+  backgroundRefreshIntervalMinutes?: number;
+};
+
+/**
+ * Options for waitFor / waitForPaid
+ */
+export type WaitForOptions = {
+  /** Give up after this many milliseconds (default: 300000 - 5 minutes) */
+  timeoutMs?: number;
+  /** Refresh from the API this often while waiting in milliseconds (default: 3000, min 1000) */
+  pollIntervalMs?: number;
+  /** Abort waiting early (rejects with a RuntimeError, code "aborted") */
+  signal?: AbortSignal;
+};
+
 /**
  * Options for getUser method
  */
@@ -73,6 +352,32 @@ export type GetUserOptions = {
   forceRefresh?: boolean;
 };
 
+/**
+ * Options for getPlans method
+ */
+export type GetPlansOptions = {
+  /** Force refresh from API, ignoring cache (default: false) */
+  forceRefresh?: boolean;
+};
+
+/**
+ * Options for openCheckout method
+ */
+export type OpenCheckoutOptions = {
+  /** Plan to preselect on the hosted checkout page (from getPlans()) */
+  planId: string;
+  /** Promotion code to apply */
+  promoCode?: string;
+  /** Prefill the customer's email address */
+  email?: string;
+  /** Checkout page locale, e.g. "en" or "de" */
+  locale?: string;
+  /** URL to redirect to after a successful payment */
+  successUrl?: string;
+  /** URL to redirect to if the user cancels checkout */
+  cancelUrl?: string;
+};
+
 /**
  * BillingExtensions Client Interface
  */
@@ -109,6 +414,135 @@ export interface BillingExtensionsClient {
    */
   openManageBilling(): Promise<void>;
 
+  /**
+   * Open checkout for a specific plan
+   *
+   * Creates a paywall session with the plan preselected and opens the URL.
+   *
+   * @param opts - Plan ID and optional checkout options
+   * @throws BillingExtensionsError
+   */
+  openCheckout(opts: OpenCheckoutOptions): Promise<void>;
+
+  /**
+   * Get a short-lived signed identity token
+   *
+   * The token is an ES256 JWT binding the extensionUserId (sub), appId (aud)
+   * and extension ID (ext). Send it to your backend instead of the raw user ID
+   * and check it there with verifyIdentityToken() from
+   * "@billingextensions/sdk/server". Tokens are cached until shortly before
+   * they expire.
+   *
+   * @returns Compact JWT string
+   * @throws BillingExtensionsError
+   */
+  getIdentityToken(): Promise<string>;
+
+  /**
+   * Activate a license key (one-time purchases)
+   *
+   * Stores the signed license in the local storage area. When the API can't be
+   * reached, getUser() verifies it offline and returns the status it grants.
+   * Requires config.verificationKeys.
+   *
+   * @param key - License key the user received after purchase
+   * @returns Promise resolving to the updated status
+   * @throws BillingExtensionsError
+   */
+  activateLicense(key: string): Promise<UserStatus>;
+
+  /**
+   * Get metadata about the current in-memory status
+   *
+   * Use isStale to show an "offline - last synced at" hint when getUser()
+   * served a cached status past its TTL.
+   *
+   * @returns Metadata, or null before the first successful getUser()/refresh()
+   */
+  getStatusMeta(): StatusMeta | null;
+
+  /**
+   * Record metered usage
+   *
+   * Increments are batched in the local storage area and reported by the service
+   * worker (requires enableBackgroundStatusTracking() there). When the API
+   * reconciles, the cached status is updated and usageChanged fires.
+   *
+   * @param metric - Metric name, e.g. "ai_requests"
+   * @param amount - Units to add (default: 1)
+   * @throws BillingExtensionsError
+   */
+  recordUsage(metric: string, amount?: number): Promise<void>;
+
+  /**
+   * Get quota for a metric
+   *
+   * Uses the cached status plus any increments not yet reported, so the
+   * remaining count updates immediately after recordUsage().
+   *
+   * @param metric - Metric name
+   * @returns Promise resolving to the quota, or null if the metric isn't tracked
+   * @throws BillingExtensionsError
+   */
+  getUsage(metric: string): Promise<UsageQuota | null>;
+
+  /**
+   * Check if the current user has a feature
+   *
+   * Computed synchronously from the cached status and the `entitlements` config.
+   * Before the first status load, the free tier applies.
+   *
+   * @param feature - Feature key from the entitlement map
+   */
+  hasFeature(feature: string): boolean;
+
+  /**
+   * Get a numeric limit for the current user
+   *
+   * Computed synchronously from the cached status and the `entitlements` config.
+   *
+   * @param key - Limit key from the entitlement map
+   * @returns The limit, or undefined if not configured for the current tier
+   */
+  getLimit(key: string): number | undefined;
+
+  /**
+   * Assert that the current user has a feature
+   *
+   * @param feature - Feature key from the entitlement map
+   * @throws BillingExtensionsError with type "EntitlementRequired" if the feature is missing
+   */
+  requireFeature(feature: string): void;
+
+  /**
+   * Wait until the user status matches a predicate
+   *
+   * Resolves as soon as the storage listener (any context) or a short-interval
+   * refresh sees a matching status - e.g. after openCheckout() or
+   * openManageBilling() to confirm the payment.
+   *
+   * @example
+   * showSpinner("Confirming your payment...");
+   * await client.waitFor((status) => status.plan?.id === "plan_team");
+   *
+   * @param predicate - Returns true for the status to wait for
+   * @param opts - Timeout, poll interval and abort signal
+   * @returns Promise resolving to the first matching status
+   * @throws BillingExtensionsError with type "Timeout" if nothing matched in time
+   * @throws BillingExtensionsError with code "checkout_cancelled" if the content script
+   *   reports a cancelled checkout
+   */
+  waitFor(predicate: (status: UserStatus) => boolean, opts?: WaitForOptions): Promise<UserStatus>;
+
+  /**
+   * Wait until the user has paid (shortcut for waitFor((s) => s.paid))
+   *
+   * @param opts - Timeout, poll interval and abort signal
+   * @returns Promise resolving to the paid status
+   * @throws BillingExtensionsError with type "Timeout" if the user hasn't paid in time
+   */
+  waitForPaid(opts?: WaitForOptions): Promise<UserStatus>;
+
   /**
    * Register a handler to be called when user status changes
    *
@@ -117,6 +551,22 @@ export interface BillingExtensionsClient {
    */
   onStatusChanged(handler: StatusChangeHandler): () => void;
 
+  /**
+   * Register a handler for a subscription lifecycle event
+   *
+   * Events are derived from status transitions seen by the storage listener
+   * and claimed in storage, so each event fires once across contexts: in one
+   * context that has a handler for it (service worker, popup, extension page).
+   *
+   * @example
+   * client.on("pastDue", ({ status }) => showPaymentBanner(status));
+   *
+   * @param event - Lifecycle event type
+   * @param handler - Function called with { type, status, prev }
+   * @returns Unsubscribe function to remove the handler
+   */
+  on<E extends LifecycleEventType>(event: E, handler: LifecycleEventHandler<E>): () => void;
+
   /**
    * Enable AutoSync (enabled by default)
    *
@@ -131,11 +581,16 @@ export interface BillingExtensionsClient {
   /**
    * Enable background status tracking (recommended)
    *
-   * Call this in your service worker/background script. It does two things:
+   * Call this in your service worker/background script. It:
    * 1. Warms the cache with an initial refresh so getUser() is fast when the popup opens
    * 2. Sets up a message listener for the optional content script's checkout return notification
+   * 3. Schedules a refresh at currentPeriodEnd (requires the "alarms" permission)
+   * 4. Optionally refreshes on an interval (see BackgroundTrackingOptions)
+   *
+   * @param opts - Background tracking options
+   * @throws BillingExtensionsError with type "ConfigError" for invalid options
    */
-  enableBackgroundStatusTracking(): void;
+  enableBackgroundStatusTracking(opts?: BackgroundTrackingOptions): void;
 
   /**
    * Disable AutoSync
@@ -145,12 +600,14 @@ export interface BillingExtensionsClient {
   /**
    * Get available plans
    *
-   * Fetches the list of available plans from the API.
+   * Returns cached plans if fetched within the last hour, otherwise
+   * fetches the list of available plans from the API.
    *
+   * @param opts - Options for getting plans
    * @returns Promise resolving to an array of plans
    * @throws BillingExtensionsError
    */
-  getPlans(): Promise<PlanForSDK[]>;
+  getPlans(opts?: GetPlansOptions): Promise<PlanForSDK[]>;
 }
 
 /**
@@ -159,6 +616,26 @@ export interface BillingExtensionsClient {
 export type CachedStatus = {
   status: UserStatus;
   fetchedAt: number; // Unix timestamp in milliseconds
+  /** Signed envelope the status was verified from (when verificationKeys is set) */
+  signedStatus?: string;
+  /** Set when the SDK expired the status locally at currentPeriodEnd (API unreachable) */
+  expiredAt?: number;
+  /** ETag of the response, sent back as If-None-Match */
+  etag?: string;
+  /** Last-Modified of the response, sent back as If-Modified-Since */
+  lastModified?: string;
+};
+
+/**
+ * Cached plans with metadata
+ */
+export type CachedPlans = {
+  plans: PlanForSDK[];
+  fetchedAt: number; // Unix timestamp in milliseconds
+  /** ETag of the response, sent back as If-None-Match */
+  etag?: string;
+  /** Last-Modified of the response, sent back as If-Modified-Since */
+  lastModified?: string;
 };
 
 /**
@@ -1,3 +1,4 @@
+import { getRuntimeId } from "../core/platform.js";
 import { startContentScript } from "./startContentScript.js";
 
 function isLikelyContentScript(): boolean {
@@ -5,12 +6,13 @@ function isLikelyContentScript(): boolean {
   if (typeof location === "undefined") return false;
   if (
     location.protocol === "chrome-extension:" ||
-    location.protocol === "moz-extension:"
+    location.protocol === "moz-extension:" ||
+    location.protocol === "safari-web-extension:"
   )
     return false;
 
-  // if chrome.runtime exists, we are likely in extension context (content script)
-  return typeof chrome !== "undefined" && !!chrome.runtime?.id;
+  // if runtime exists, we are likely in extension context (content script)
+  return getRuntimeId() !== undefined;
 }
 
 // Auto-run when the file is injected as a content script
@@ -1,23 +1,160 @@
-export function startContentScript(opts?: {
-  successParam?: string; // default: "be_success"
-  messageType?: string; // default: "BILLINGEXTENSIONS_CHECKOUT_RETURNED"
-}) {
+import {
+  CHECKOUT_CANCELLED_MESSAGE,
+  CHECKOUT_RETURN_MESSAGE,
+  CHECKOUT_RETURN_VERSION,
+  SESSION_TOKEN_PARAM,
+  type CheckoutCancelledMessage,
+  type CheckoutReturnMessage,
+} from "../core/checkoutReturn.js";
+import { createConfigError } from "../core/errors.js";
+import { getExtensionApi } from "../core/platform.js";
+import { matchesAnyUrl, type UrlMatcher } from "./urlMatcher.js";
+
+export type { UrlMatcher } from "./urlMatcher.js";
+
+/**
+ * Checkout-return detection rules for the content script
+ */
+export type ContentScriptOptions = {
+  /** Success query parameter for the default rules (default: "be_success") */
+  successParam?: string;
+  /** Query parameter carrying the paywall session token (default: "be_session") */
+  sessionParam?: string;
+  /** Only run on pages from these origins (default: wherever the manifest injects it) */
+  allowedOrigins?: string[];
+  /**
+   * Success page rules. Replaces the defaults: `?status=success`, the
+   * `successParam` query parameter, or a path starting with `/success`.
+   */
+  successPatterns?: UrlMatcher[];
+  /**
+   * Cancelled/failed checkout rules. Replaces the defaults: `?status=cancel`
+   * (or `canceled`, `cancelled`, `failed`), or a path starting with `/cancel`.
+   */
+  cancelPatterns?: UrlMatcher[];
+  /** Re-check on client-side navigations (popstate, hashchange, Navigation API) (default: true) */
+  watchNavigation?: boolean;
+};
+
+const CANCEL_STATUSES = ["cancel", "canceled", "cancelled", "failed"];
+
+/**
+ * Minimal shape of the Navigation API (not in TypeScript's DOM lib yet)
+ */
+type NavigationLike = {
+  addEventListener(type: "navigatesuccess", listener: () => void): void;
+  removeEventListener(type: "navigatesuccess", listener: () => void): void;
+};
+
+/**
+ * Normalize allowed origins
+ *
+ * @throws BillingExtensionsError with type "ConfigError" for an entry that isn't a URL
+ */
+function parseAllowedOrigins(origins: string[]): string[] {
+  return origins.map((origin) => {
+    try {
+      return new URL(origin).origin;
+    } catch {
+      throw createConfigError(`allowedOrigins contains an invalid URL: "${String(origin)}"`);
+    }
+  });
+}
+
+/**
+ * Stops the navigation watcher of the previous call (e.g. the auto-run)
+ */
+let stopPrevious: (() => void) | null = null;
+
+/**
+ * Detect checkout success/cancel pages and notify the background
+ *
+ * Calling it again replaces the previous rules.
+ *
+ * @returns A function that stops watching client-side navigations
+ * @throws BillingExtensionsError with type "ConfigError" if allowedOrigins has an invalid URL
+ */
+export function startContentScript(opts?: ContentScriptOptions): () => void {
+  const stop = () => {};
+
   // Content scripts always have window/document
-  if (typeof window === "undefined" || typeof document === "undefined") return;
-  if (typeof chrome === "undefined" || !chrome.runtime?.sendMessage) return;
+  if (typeof window === "undefined" || typeof document === "undefined") return stop;
+  const api = getExtensionApi();
+  if (!api?.runtime.sendMessage) return stop;
+
+  const allowedOrigins = opts?.allowedOrigins && parseAllowedOrigins(opts.allowedOrigins);
+
+  stopPrevious?.();
+  stopPrevious = null;
 
   const successParam = opts?.successParam ?? "be_success";
-  const messageType =
-    opts?.messageType ?? "BILLINGEXTENSIONS_CHECKOUT_RETURNED";
+  const sessionParam = opts?.sessionParam ?? SESSION_TOKEN_PARAM;
+
+  const isSuccess = (url: URL): boolean =>
+    opts?.successPatterns
+      ? matchesAnyUrl(opts.successPatterns, url)
+      : url.searchParams.get("status") === "success" ||
+        url.searchParams.has(successParam) ||
+        url.pathname.startsWith("/success");
+
+  const isCancelled = (url: URL): boolean =>
+    opts?.cancelPatterns
+      ? matchesAnyUrl(opts.cancelPatterns, url)
+      : CANCEL_STATUSES.includes(url.searchParams.get("status") ?? "") ||
+        url.pathname.startsWith("/cancel");
+
+  // SPA routes can revisit the same URL; send each message once
+  const sent = new Set<string>();
+
+  const send = (key: string, message: CheckoutReturnMessage | CheckoutCancelledMessage) => {
+    if (sent.has(key)) return;
+    sent.add(key);
+    api.runtime.sendMessage(message).catch(() => {});
+  };
+
+  const check = () => {
+    const url = new URL(location.href);
+    if (allowedOrigins && !allowedOrigins.includes(url.origin)) return;
+
+    const sessionToken = url.searchParams.get(sessionParam);
+
+    if (isSuccess(url)) {
+      // The background matches the token (or, for custom success URLs without
+      // one, its most recent paywall session) before refreshing
+      send(`success:${sessionToken ?? url.href}`, {
+        type: CHECKOUT_RETURN_MESSAGE,
+        v: CHECKOUT_RETURN_VERSION,
+        ...(sessionToken ? { sessionToken } : {}),
+      });
+      return;
+    }
+
+    if (isCancelled(url)) {
+      send(`cancel:${sessionToken ?? url.href}`, {
+        type: CHECKOUT_CANCELLED_MESSAGE,
+        v: CHECKOUT_RETURN_VERSION,
+        ...(sessionToken ? { sessionToken } : {}),
+      });
+    }
+  };
+
+  check();
+
+  if (opts?.watchNavigation === false) return stop;
 
-  const url = new URL(location.href);
+  // The hosted success page may route client-side after load
+  const navigation = (globalThis as { navigation?: NavigationLike }).navigation;
 
-  const isSuccess =
-    url.searchParams.get("status") === "success" ||
-    url.searchParams.has(successParam) ||
-    url.pathname.startsWith("/success");
+  window.addEventListener("popstate", check);
+  window.addEventListener("hashchange", check);
+  navigation?.addEventListener("navigatesuccess", check);
 
-  if (!isSuccess) return;
+  const stopWatching = () => {
+    window.removeEventListener("popstate", check);
+    window.removeEventListener("hashchange", check);
+    navigation?.removeEventListener("navigatesuccess", check);
+  };
 
-  chrome.runtime.sendMessage({ type: messageType }).catch(() => {});
+  stopPrevious = stopWatching;
+  return stopWatching;
 }
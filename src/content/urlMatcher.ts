@@ -0,0 +1,81 @@
+/**
+ * URL Matchers
+ *
+ * Matching rules for checkout-return detection in the content script.
+ */
+
+/**
+ * A rule that matches a page URL
+ *
+ * - A string pattern (URLPattern-style): `*` matches anything and `:name`
+ *   matches one path segment. Patterns starting with `/` match the path, e.g.
+ *   `"/checkout/:id/success"`. Absolute patterns match the origin and path,
+ *   e.g. `"https://pay.example.com/thanks*"`. Add `?...` to match the query
+ *   string too, e.g. `"/return?result=ok*"`.
+ * - Anything with a `test(href)` method, such as a `URLPattern` or a `RegExp`.
+ * - A predicate receiving the parsed URL.
+ */
+export type UrlMatcher = string | { test(input: string): boolean } | ((url: URL) => boolean);
+
+/**
+ * Compile a string pattern into an anchored RegExp
+ */
+function compilePattern(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+
+    if (char === "*") {
+      source += ".*";
+      continue;
+    }
+
+    // `:name` matches a single path segment
+    if (char === ":") {
+      const name = /^[A-Za-z_$][\w$]*/.exec(pattern.slice(i + 1));
+      if (name) {
+        source += "[^/?#]+";
+        i += name[0].length;
+        continue;
+      }
+    }
+
+    source += char.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build the part of the URL a string pattern is matched against
+ */
+function patternSubject(pattern: string, url: URL): string {
+  const base = pattern.includes("://") ? url.origin + url.pathname : url.pathname;
+  return pattern.includes("?") ? base + url.search : base;
+}
+
+/**
+ * Check a URL against a single matcher
+ */
+export function matchesUrl(matcher: UrlMatcher, url: URL): boolean {
+  try {
+    if (typeof matcher === "string") {
+      return compilePattern(matcher).test(patternSubject(matcher, url));
+    }
+    if (typeof matcher === "function") {
+      return matcher(url);
+    }
+    return matcher.test(url.href);
+  } catch {
+    // A broken matcher never matches
+    return false;
+  }
+}
+
+/**
+ * Check a URL against a list of matchers
+ */
+export function matchesAnyUrl(matchers: UrlMatcher[], url: URL): boolean {
+  return matchers.some((matcher) => matchesUrl(matcher, url));
+}
@@ -0,0 +1,153 @@
+/**
+ * Background Alarms
+ *
+ * Schedules alarms entries for the service worker:
+ * - at the end of the current billing period, so status is refreshed right when
+ *   a subscription lapses (and expired locally if the API can't be reached)
+ * - on an opt-in interval, so background-only features don't run on old status
+ *
+ * Requires the "alarms" permission; without it scheduling is a no-op.
+ */
+
+import type { UserStatus } from "../client/types.js";
+import { getExtensionApi } from "./platform.js";
+
+/**
+ * Alarm name for the period-end refresh
+ */
+export const PERIOD_END_ALARM = "billingextensions_period_end";
+
+/**
+ * Fire this long after currentPeriodEnd so the API has processed the renewal/cancellation
+ */
+const PERIOD_END_BUFFER_MS = 2 * 60 * 1000;
+
+/**
+ * Get the alarms API ("alarms" permission), or undefined if unavailable
+ */
+export function getAlarmsApi(): typeof chrome.alarms | undefined {
+  const alarms = getExtensionApi()?.alarms;
+  return typeof alarms?.create === "function" ? alarms : undefined;
+}
+
+/**
+ * When the period-end alarm should fire for a status, or null if none is needed
+ */
+export function getPeriodEndAlarmTime(status: UserStatus | null): number | null {
+  if (!status?.paid || !status.currentPeriodEnd) return null;
+
+  const periodEnd = Date.parse(status.currentPeriodEnd);
+  if (Number.isNaN(periodEnd)) return null;
+
+  return periodEnd + PERIOD_END_BUFFER_MS;
+}
+
+/**
+ * Schedule (or clear) the period-end alarm for a status
+ */
+export async function schedulePeriodEndAlarm(status: UserStatus | null): Promise<void> {
+  const alarms = getAlarmsApi();
+  if (!alarms) return;
+
+  const when = getPeriodEndAlarmTime(status);
+  if (when === null) {
+    await alarms.clear(PERIOD_END_ALARM);
+    return;
+  }
+
+  // Avoid resetting an identical alarm on every status write
+  const existing = await alarms.get(PERIOD_END_ALARM);
+  if (existing?.scheduledTime === when) return;
+
+  await alarms.create(PERIOD_END_ALARM, { when });
+}
+
+/**
+ * Whether a status should be expired locally at period end when offline
+ *
+ * Only subscriptions set to cancel are known to end - renewals are left to the
+ * offline grace policy.
+ */
+export function shouldExpireAtPeriodEnd(status: UserStatus, now = Date.now()): boolean {
+  if (!status.paid || !status.cancelAtPeriodEnd || !status.currentPeriodEnd) return false;
+
+  const periodEnd = Date.parse(status.currentPeriodEnd);
+  return !Number.isNaN(periodEnd) && periodEnd <= now;
+}
+
+/**
+ * Status after its billing period has ended
+ */
+export function expireStatus(status: UserStatus): UserStatus {
+  return {
+    ...status,
+    paid: false,
+    subscriptionStatus: "canceled",
+    plan: null,
+    cancelAtPeriodEnd: false,
+  };
+}
+
+/**
+ * Alarm name for the periodic background refresh
+ */
+export const BACKGROUND_REFRESH_ALARM = "billingextensions_background_refresh";
+
+/**
+ * Spread refreshes by ±10% so installs don't hit the API in lockstep
+ */
+const BACKGROUND_REFRESH_JITTER = 0.1;
+
+/**
+ * Seconds without input after which the user counts as idle
+ */
+export const IDLE_DETECTION_SECONDS = 10 * 60;
+
+/**
+ * Schedule the next background refresh
+ *
+ * An existing alarm is kept, so service-worker restarts don't push the next
+ * refresh back. The alarm is one-shot and rescheduled (with fresh jitter) each
+ * time it fires.
+ */
+export async function scheduleBackgroundRefreshAlarm(intervalMinutes: number): Promise<void> {
+  const alarms = getAlarmsApi();
+  if (!alarms) return;
+
+  const existing = await alarms.get(BACKGROUND_REFRESH_ALARM);
+  if (existing) return;
+
+  const jitter = 1 + (Math.random() * 2 - 1) * BACKGROUND_REFRESH_JITTER;
+  await alarms.create(BACKGROUND_REFRESH_ALARM, {
+    delayInMinutes: intervalMinutes * jitter,
+  });
+}
+
+/**
+ * Remove the background refresh alarm (interval no longer configured)
+ */
+export async function clearBackgroundRefreshAlarm(): Promise<void> {
+  await getAlarmsApi()?.clear(BACKGROUND_REFRESH_ALARM);
+}
+
+/**
+ * Get the idle API ("idle" permission), or undefined if unavailable
+ */
+export function getIdleApi(): typeof chrome.idle | undefined {
+  const idle = getExtensionApi()?.idle;
+  return typeof idle?.queryState === "function" ? idle : undefined;
+}
+
+/**
+ * Whether the user is idle or the screen is locked (false if unknown)
+ */
+export async function isUserIdle(): Promise<boolean> {
+  const idle = getIdleApi();
+  if (!idle) return false;
+
+  try {
+    return (await idle.queryState(IDLE_DETECTION_SECONDS)) !== "active";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Status Broker Protocol
+ *
+ * Lets UI-page clients (popups, side panels, options pages) ask the service
+ * worker's client for status and plans over chrome.runtime messaging, so only
+ * one context talks to the API. Callers fall back to fetching directly when
+ * the worker doesn't answer. Any context hands recorded usage to the worker the
+ * same way, so only one context writes the pending usage batch.
+ */
+
+import { BillingExtensionsError, type BillingExtensionsErrorType } from "./errors.js";
+import { getExtensionApi } from "./platform.js";
+
+/**
+ * Message type for broker requests
+ */
+export const BROKER_MESSAGE = "BILLINGEXTENSIONS_BROKER";
+
+/**
+ * Default time to wait for the service worker before fetching directly
+ */
+export const DEFAULT_BROKER_TIMEOUT_MS = 10_000;
+
+/**
+ * Client methods the broker answers
+ */
+export type BrokerMethod = "getUser" | "refresh" | "getPlans" | "recordUsage";
+
+export type BrokerRequest = {
+  type: typeof BROKER_MESSAGE;
+  method: BrokerMethod;
+  forceRefresh?: boolean;
+  /** Usage increments keyed by metric (recordUsage) */
+  increments?: Record<string, number>;
+};
+
+/**
+ * BillingExtensionsError in a form that survives structured cloning
+ */
+export type SerializedError = {
+  type: BillingExtensionsErrorType;
+  message: string;
+  status?: number;
+  code?: string;
+  retryAfterMs?: number;
+};
+
+export type BrokerResponse = { ok: true; result: unknown } | { ok: false; error: SerializedError };
+
+/**
+ * Check if a runtime message is a broker request
+ */
+export function isBrokerRequest(msg: unknown): msg is BrokerRequest {
+  if (typeof msg !== "object" || msg === null) return false;
+
+  const { type, method } = msg as { type?: unknown; method?: unknown };
+  return (
+    type === BROKER_MESSAGE &&
+    (method === "getUser" ||
+      method === "refresh" ||
+      method === "getPlans" ||
+      method === "recordUsage")
+  );
+}
+
+function isBrokerResponse(value: unknown): value is BrokerResponse {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { ok?: unknown }).ok === "boolean"
+  );
+}
+
+/**
+ * Send a request to the broker
+ *
+ * @returns The broker's response, or null if no broker answered in time
+ */
+export async function sendBrokerRequest(
+  request: BrokerRequest,
+  timeoutMs: number
+): Promise<BrokerResponse | null> {
+  const api = getExtensionApi();
+  if (typeof api?.runtime.sendMessage !== "function") {
+    return null;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), timeoutMs);
+  });
+
+  try {
+    const response = await Promise.race([
+      api.runtime.sendMessage<BrokerRequest, unknown>(request),
+      timeout,
+    ]);
+    return isBrokerResponse(response) ? response : null;
+  } catch {
+    // No receiving end (worker without broker, or called from the worker itself)
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Serialize an error for a broker response
+ */
+export function serializeError(error: BillingExtensionsError): SerializedError {
+  const serialized: SerializedError = { type: error.type, message: error.message };
+
+  if (error.status !== undefined) serialized.status = error.status;
+  if (error.code !== undefined) serialized.code = error.code;
+  if (error.retryAfterMs !== undefined) serialized.retryAfterMs = error.retryAfterMs;
+
+  return serialized;
+}
+
+/**
+ * Rebuild an error from a broker response
+ */
+export function deserializeError(serialized: SerializedError): BillingExtensionsError {
+  const opts: { status?: number; code?: string; retryAfterMs?: number } = {};
+
+  if (serialized.status !== undefined) opts.status = serialized.status;
+  if (serialized.code !== undefined) opts.code = serialized.code;
+  if (serialized.retryAfterMs !== undefined) opts.retryAfterMs = serialized.retryAfterMs;
+
+  return new BillingExtensionsError(serialized.type, serialized.message, opts);
+}
@@ -0,0 +1,198 @@
+/**
+ * Checkout Return Protocol
+ *
+ * Versioned message the content script sends from the hosted checkout's
+ * success page, and the checks the background runs before refreshing: the
+ * sender must be a tab of this extension on a billing origin, the message must
+ * match a paywall session this extension created, and each tab is rate-limited.
+ *
+ * Contract: the hosted checkout redirects to its success page with the paywall
+ * session token in the `be_session` query parameter. A custom successUrl can't
+ * carry it (the token is issued with the session), so a return without one is
+ * matched to the most recent pending session instead.
+ */
+
+import type { StorageAdapter } from "../client/types.js";
+import { getRuntimeId } from "./platform.js";
+import { getFromLocalStorage, setInLocalStorage } from "./storage.js";
+
+/**
+ * Message type for checkout returns
+ */
+export const CHECKOUT_RETURN_MESSAGE = "BILLINGEXTENSIONS_CHECKOUT_RETURNED";
+
+/**
+ * Message type for checkouts the user cancelled or that failed
+ */
+export const CHECKOUT_CANCELLED_MESSAGE = "BILLINGEXTENSIONS_CHECKOUT_CANCELLED";
+
+/**
+ * Current envelope version
+ */
+export const CHECKOUT_RETURN_VERSION = 1;
+
+/**
+ * Query parameter the hosted success page carries the paywall session token in
+ * (absent on custom success URLs)
+ */
+export const SESSION_TOKEN_PARAM = "be_session";
+
+/**
+ * Versioned checkout return envelope
+ */
+export type CheckoutReturnMessage = {
+  type: typeof CHECKOUT_RETURN_MESSAGE;
+  v: typeof CHECKOUT_RETURN_VERSION;
+  /** Paywall session token from the success URL, if it carries one */
+  sessionToken?: string;
+};
+
+/**
+ * Versioned checkout cancellation envelope
+ *
+ * Never triggers a refresh (it only rejects pending waitFor() calls), so the
+ * session token is included when present but not required.
+ */
+export type CheckoutCancelledMessage = {
+  type: typeof CHECKOUT_CANCELLED_MESSAGE;
+  v: typeof CHECKOUT_RETURN_VERSION;
+  /** Paywall session token from the cancel URL, if any */
+  sessionToken?: string;
+};
+
+/**
+ * Storage key for paywall session tokens awaiting a checkout return
+ */
+const PAYWALL_SESSIONS_KEY = "paywall_sessions";
+
+/**
+ * Forget session tokens after a day, and keep at most a handful
+ */
+const PAYWALL_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_PAYWALL_SESSIONS = 10;
+
+type PendingSession = {
+  token: string;
+  createdAt: number; // Unix timestamp in milliseconds
+};
+
+/**
+ * Check if a runtime message looks like a checkout return (any version)
+ */
+export function isCheckoutReturnMessage(msg: unknown): msg is { type: string } {
+  return (
+    typeof msg === "object" &&
+    msg !== null &&
+    (msg as { type?: unknown }).type === CHECKOUT_RETURN_MESSAGE
+  );
+}
+
+/**
+ * Check if a checkout return uses the current envelope
+ */
+export function isValidCheckoutReturn(msg: unknown): msg is CheckoutReturnMessage {
+  if (!isCheckoutReturnMessage(msg)) return false;
+
+  const { v, sessionToken } = msg as { v?: unknown; sessionToken?: unknown };
+  return (
+    v === CHECKOUT_RETURN_VERSION &&
+    (sessionToken === undefined || (typeof sessionToken === "string" && !!sessionToken))
+  );
+}
+
+/**
+ * Check if a runtime message is a current-version checkout cancellation
+ */
+export function isCheckoutCancelledMessage(msg: unknown): msg is CheckoutCancelledMessage {
+  if (typeof msg !== "object" || msg === null) return false;
+
+  const { type, v, sessionToken } = msg as { type?: unknown; v?: unknown; sessionToken?: unknown };
+  return (
+    type === CHECKOUT_CANCELLED_MESSAGE &&
+    v === CHECKOUT_RETURN_VERSION &&
+    (sessionToken === undefined || typeof sessionToken === "string")
+  );
+}
+
+/**
+ * Check the message came from a tab of this extension on an allowed origin
+ */
+export function isAllowedCheckoutSender(
+  sender: chrome.runtime.MessageSender,
+  allowedOrigins: string[]
+): boolean {
+  if (!sender.id || sender.id !== getRuntimeId()) return false;
+  if (!sender.tab || typeof sender.tab.id !== "number") return false;
+
+  const url = sender.url ?? sender.tab.url;
+  if (!url) return false;
+
+  try {
+    return allowedOrigins.includes(new URL(url).origin);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a per-tab rate limiter
+ *
+ * @returns A function that returns true if the tab may proceed now
+ */
+export function createTabRateLimiter(intervalMs: number): (tabId: number) => boolean {
+  const lastAllowedAt = new Map<number, number>();
+
+  return (tabId) => {
+    const now = Date.now();
+    const last = lastAllowedAt.get(tabId);
+    if (last !== undefined && now - last < intervalMs) return false;
+
+    lastAllowedAt.set(tabId, now);
+    return true;
+  };
+}
+
+/**
+ * Remember a paywall session token so its checkout return is accepted
+ */
+export async function rememberPaywallSession(
+  storage: StorageAdapter,
+  token: string
+): Promise<void> {
+  const now = Date.now();
+  const sessions = (
+    (await getFromLocalStorage<PendingSession[]>(storage, PAYWALL_SESSIONS_KEY)) ?? []
+  )
+    .filter((session) => now - session.createdAt < PAYWALL_SESSION_TTL_MS)
+    .slice(-(MAX_PAYWALL_SESSIONS - 1));
+
+  sessions.push({ token, createdAt: now });
+  await setInLocalStorage(storage, PAYWALL_SESSIONS_KEY, sessions);
+}
+
+/**
+ * Accept a paywall session once
+ *
+ * Without a token (custom success URLs), accepts the most recent pending session.
+ *
+ * @returns true if the token belongs to a recent paywall session of this extension
+ */
+export async function consumePaywallSession(
+  storage: StorageAdapter,
+  token: string | undefined
+): Promise<boolean> {
+  const now = Date.now();
+  const sessions = (
+    (await getFromLocalStorage<PendingSession[]>(storage, PAYWALL_SESSIONS_KEY)) ?? []
+  ).filter((session) => now - session.createdAt < PAYWALL_SESSION_TTL_MS);
+
+  const index =
+    token === undefined
+      ? sessions.length - 1
+      : sessions.findIndex((session) => session.token === token);
+  if (index === -1) return false;
+
+  sessions.splice(index, 1);
+  await setInLocalStorage(storage, PAYWALL_SESSIONS_KEY, sessions);
+  return true;
+}
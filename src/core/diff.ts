@@ -4,81 +4,80 @@
  * Compares UserStatus objects to determine what has changed.
  */
 
-import type { StatusDiff, UserStatus } from "../client/types.js";
+import type { StatusChange, StatusDiff, UserStatus } from "../client/types.js";
+
+/**
+ * Transport-only fields that change on every fetch and aren't part of the status
+ */
+const IGNORED_FIELDS = new Set<string>(["signedStatus"]);
 
 /**
  * Compare two UserStatus objects and return what changed
  */
 export function computeStatusDiff(prev: UserStatus | null, next: UserStatus): StatusDiff {
+  const changes = computeChanges(prev, next);
+
   return {
-    entitlementChanged: computeEntitlementChanged(prev, next),
-    planChanged: computePlanChanged(prev, next),
-    usageChanged: computeUsageChanged(prev, next),
+    entitlementChanged: changes.some((change) => change.path === "paid"),
+    planChanged: changes.some((change) => isUnder(change.path, "plan")),
+    usageChanged: changes.some((change) => isUnder(change.path, "usage")),
+    changes,
   };
 }
 
 /**
- * Check if entitlement changed
+ * List every changed field as { path, from, to }
+ *
+ * Nested objects (plan, usage) are compared field by field, e.g.
+ * "plan.name" or "usage.ai_requests.used". A missing previous status is
+ * treated as empty, so every present field shows up as a change.
  */
-function computeEntitlementChanged(prev: UserStatus | null, next: UserStatus): boolean {
-  if (prev === null) return true;
-  return prev.paid !== next.paid;
-}
+function computeChanges(prev: UserStatus | null, next: UserStatus): StatusChange[] {
+  const changes: StatusChange[] = [];
+  const from = (prev ?? {}) as Record<string, unknown>;
+  const to = next as Record<string, unknown>;
 
-/**
- * Check if plan changed
- * Compares: id, nickname, status, currentPeriodEnd
- */
-function computePlanChanged(prev: UserStatus | null, next: UserStatus): boolean {
-  if (prev === null) return next.plan !== undefined && next.plan !== null;
+  for (const key of unionKeys(from, to)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    collectChanges(key, from[key], to[key], changes);
+  }
 
-  const prevPlan = prev.plan;
-  const nextPlan = next.plan;
+  return changes;
+}
 
-  // Both undefined or null - no change
-  if ((prevPlan === undefined || prevPlan === null) && (nextPlan === undefined || nextPlan === null)) return false;
+function collectChanges(path: string, from: unknown, to: unknown, changes: StatusChange[]): void {
+  // null and undefined both mean "absent"
+  if (from == null && to == null) return;
 
-  // One undefined/null, one not - changed
-  if (prevPlan === undefined || prevPlan === null || nextPlan === undefined || nextPlan === null) return true;
+  if (isRecord(from) && isRecord(to)) {
+    for (const key of unionKeys(from, to)) {
+      collectChanges(`${path}.${key}`, from[key], to[key], changes);
+    }
+    return;
+  }
 
-  // Compare all plan fields
-  return (
-    prevPlan.id !== nextPlan.id ||
-    prevPlan.nickname !== nextPlan.nickname ||
-    prevPlan.status !== nextPlan.status ||
-    prevPlan.currentPeriodEnd !== nextPlan.currentPeriodEnd
-  );
+  if (from !== to) {
+    changes.push({ path, from, to });
+  }
 }
 
-/**
- * Check if usage changed
- * Compares: used, limit, resetsAt
- */
-function computeUsageChanged(prev: UserStatus | null, next: UserStatus): boolean {
-  if (prev === null) return next.usage !== undefined && next.usage !== null;
-
-  const prevUsage = prev.usage;
-  const nextUsage = next.usage;
-
-  // Both undefined or null - no change
-  if ((prevUsage === undefined || prevUsage === null) && (nextUsage === undefined || nextUsage === null)) return false;
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
 
-  // One undefined/null, one not - changed
-  if (prevUsage === undefined || prevUsage === null || nextUsage === undefined || nextUsage === null) return true;
+function unionKeys(a: Record<string, unknown>, b: Record<string, unknown>): string[] {
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])];
+}
 
-  // Compare all usage fields
-  return (
-    prevUsage.used !== nextUsage.used ||
-    prevUsage.limit !== nextUsage.limit ||
-    prevUsage.resetsAt !== nextUsage.resetsAt
-  );
+function isUnder(path: string, field: string): boolean {
+  return path === field || path.startsWith(`${field}.`);
 }
 
 /**
  * Check if any meaningful change occurred
  */
 export function hasAnyChange(diff: StatusDiff): boolean {
-  return diff.entitlementChanged || diff.planChanged || diff.usageChanged;
+  return diff.changes.length > 0;
 }
 
 /**
@@ -0,0 +1,50 @@
+/**
+ * Entitlements
+ *
+ * Resolves features and limits from the declarative entitlement map in the
+ * client config and the cached UserStatus.
+ */
+
+import type { EntitlementsConfig, PlanEntitlements, UserStatus } from "../client/types.js";
+
+/**
+ * Entitlements granted when nothing is configured
+ */
+const EMPTY_ENTITLEMENTS: PlanEntitlements = {};
+
+/**
+ * Resolve the entitlements that apply to a user status
+ *
+ * - Paid users with a mapped plan ID get that plan's entitlements
+ * - Everyone else (unpaid, unmapped plan, or status not loaded yet) gets the free tier
+ */
+export function resolveEntitlements(
+  config: EntitlementsConfig | undefined,
+  status: UserStatus | null
+): PlanEntitlements {
+  if (!config) return EMPTY_ENTITLEMENTS;
+
+  const planId = status?.paid === true ? status.plan?.id : undefined;
+  if (planId !== undefined && Object.prototype.hasOwnProperty.call(config.plans, planId)) {
+    return config.plans[planId] ?? EMPTY_ENTITLEMENTS;
+  }
+
+  return config.free ?? EMPTY_ENTITLEMENTS;
+}
+
+/**
+ * Check if the resolved entitlements include a feature
+ */
+export function hasFeature(entitlements: PlanEntitlements, feature: string): boolean {
+  return entitlements.features?.includes(feature) ?? false;
+}
+
+/**
+ * Get a numeric limit from the resolved entitlements
+ * Returns undefined if the limit isn't configured for the current tier
+ */
+export function getLimit(entitlements: PlanEntitlements, key: string): number | undefined {
+  const limits = entitlements.limits;
+  if (!limits || !Object.prototype.hasOwnProperty.call(limits, key)) return undefined;
+  return limits[key];
+}
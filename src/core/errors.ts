@@ -3,17 +3,24 @@ export type BillingExtensionsErrorType =
   | "RuntimeError"
   | "NetworkError"
   | "Unauthorized"
-  | "ApiError";
+  | "ApiError"
+  | "EntitlementRequired"
+  | "RateLimited"
+  | "InvalidResponse"
+  | "InvalidToken"
+  | "Timeout";
 
 export class BillingExtensionsError extends Error {
   type: BillingExtensionsErrorType;
   status?: number;
   code?: string;
+  /** How long the server asked us to wait before retrying (from Retry-After) */
+  retryAfterMs?: number;
 
   constructor(
     type: BillingExtensionsErrorType,
     message: string,
-    opts?: { status?: number; code?: string; cause?: unknown }
+    opts?: { status?: number; code?: string; retryAfterMs?: number; cause?: unknown }
   ) {
     super(message, opts?.cause ? ({ cause: opts.cause } as any) : undefined);
 
@@ -21,6 +28,7 @@ export class BillingExtensionsError extends Error {
 
     if (opts?.status !== undefined) this.status = opts.status;
     if (opts?.code !== undefined) this.code = opts.code;
+    if (opts?.retryAfterMs !== undefined) this.retryAfterMs = opts.retryAfterMs;
 
     Object.setPrototypeOf(this, new.target.prototype);
     this.name = "BillingExtensionsError";
@@ -60,6 +68,55 @@ export function createApiError(
   return new BillingExtensionsError("ApiError", message, opts);
 }
 
+export function createRateLimitedError(
+  message: string,
+  retryAfterMs?: number,
+  code?: string,
+  cause?: unknown
+) {
+  const opts: { status?: number; code?: string; retryAfterMs?: number; cause?: unknown } = {
+    status: 429,
+    cause,
+  };
+
+  if (code !== undefined) opts.code = code;
+  if (retryAfterMs !== undefined) opts.retryAfterMs = retryAfterMs;
+
+  return new BillingExtensionsError("RateLimited", message, opts);
+}
+
+export function createInvalidResponseError(message: string, cause?: unknown) {
+  return new BillingExtensionsError("InvalidResponse", message, { cause });
+}
+
+export function createInvalidTokenError(message: string, cause?: unknown, code?: string) {
+  const opts: { code?: string; cause?: unknown } = { cause };
+
+  if (code !== undefined) opts.code = code;
+
+  return new BillingExtensionsError("InvalidToken", message, opts);
+}
+
+export function createAbortedError(message: string, cause?: unknown) {
+  return new BillingExtensionsError("RuntimeError", message, { code: "aborted", cause });
+}
+
+export function createCheckoutCancelledError(message: string) {
+  return new BillingExtensionsError("RuntimeError", message, { code: "checkout_cancelled" });
+}
+
+export function createTimeoutError(message: string) {
+  return new BillingExtensionsError("Timeout", message);
+}
+
+export function createEntitlementRequiredError(feature: string) {
+  return new BillingExtensionsError(
+    "EntitlementRequired",
+    `The current plan does not include the "${feature}" feature`,
+    { code: feature }
+  );
+}
+
 export function normalizeError(error: unknown): BillingExtensionsError {
   if (error instanceof BillingExtensionsError) return error;
 
@@ -7,25 +7,36 @@
 
 import {
   createApiError,
+  createConfigError,
   createNetworkError,
+  createRateLimitedError,
   createUnauthorizedError,
+  isBillingExtensionsError,
   normalizeError,
 } from "./errors.js";
 import { getExtensionId, getOrCreateExtensionUserId } from "./identity.js";
+import { isDevelopmentMode } from "./platform.js";
 import { getSDKVersion } from "./version.js";
+import type { ApiEnvironment, RetryPolicy, StorageAdapter } from "../client/types.js";
+import type { ResponseValidator } from "./validate.js";
 
 /**
- * Production API origin - not configurable publicly
+ * Production API origin
  */
 const API_ORIGIN = "https://billingextensions.com/";
 
+/**
+ * Staging API origin (selected with `environment: "staging"`)
+ */
+const STAGING_API_ORIGIN = "https://staging.billingextensions.com/";
+
 /**
  * Internal development override (not exported)
  * Can be set via environment or build-time injection for local dev
  */
 declare const __DEV_API_ORIGIN__: string | undefined;
 
-function getApiOrigin(): string {
+function getDefaultApiOrigin(): string {
   // Allow internal dev override (never exposed to public API)
   if (typeof __DEV_API_ORIGIN__ !== "undefined" && __DEV_API_ORIGIN__) {
     return __DEV_API_ORIGIN__;
@@ -33,6 +44,39 @@ function getApiOrigin(): string {
   return API_ORIGIN;
 }
 
+/**
+ * Resolve the API origin for an environment
+ *
+ * Custom origins are normalized to end with a trailing slash so paths can be
+ * appended directly.
+ *
+ * @throws BillingExtensionsError with type "ConfigError" if the origin is not a valid http(s) URL
+ */
+export function resolveApiOrigin(environment: ApiEnvironment = "production"): string {
+  if (environment === "production") return getDefaultApiOrigin();
+  if (environment === "staging") return STAGING_API_ORIGIN;
+
+  let url: URL;
+  try {
+    url = new URL(environment.origin);
+  } catch {
+    throw createConfigError(`environment.origin is not a valid URL: "${environment.origin}"`);
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw createConfigError(`environment.origin must use http(s), got "${url.protocol}"`);
+  }
+
+  return `${url.origin}/`;
+}
+
+/**
+ * Check whether the environment points somewhere other than production
+ */
+function isNonProductionEnvironment(environment: ApiEnvironment): boolean {
+  return environment !== "production";
+}
+
 function isNgrokOrigin(origin: string): boolean {
   try {
     const host = new URL(origin).host;
@@ -43,28 +87,36 @@ function isNgrokOrigin(origin: string): boolean {
 }
 
 /**
- * Detect if the extension is running in development mode (unpacked).
- * Unpacked extensions don't have an update_url in their manifest,
- * while store-installed extensions do.
+ * Refuse plain-HTTP origins outside of development installs
+ *
+ * A store-installed extension must never send the public key or user ID
+ * over an unencrypted connection, even if misconfigured.
  */
-async function isDevelopmentMode(): Promise<boolean> {
- 
-  try {
-    if (typeof chrome !== "undefined") {
-      const info = await chrome.management.getSelf();
-      // Unpacked extensions don't have update_url
-      return info.installType === "development";
-    }
-  } catch {
-    // If we can't determine, assume not in dev mode
-  }
-  return false;
+function assertSecureOrigin(origin: string, developmentMode: boolean): void {
+  if (new URL(origin).protocol === "https:") return;
+  if (developmentMode) return;
+
+  throw createConfigError(
+    `Refusing to use non-HTTPS API origin "${origin}" outside of a development install`
+  );
 }
 
 /**
  * Default request timeout in milliseconds
  */
-const DEFAULT_TIMEOUT_MS = 15000;
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Default retry policy: only idempotent GETs are retried
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryMethods: ["GET"],
+};
 
 /**
  * HTTP request configuration
@@ -76,25 +128,53 @@ export type HttpRequestConfig = {
   fetchImpl?: typeof fetch;
   /** Request timeout in milliseconds */
   timeoutMs?: number;
+  /** API environment (default: "production") */
+  environment?: ApiEnvironment;
+  /** Retry policy, or false to disable retries */
+  retry?: RetryPolicy | false;
+  /** Storage holding the extension user ID */
+  storage: StorageAdapter;
 };
 
 /**
  * HTTP request options
  */
-type RequestOptions = {
+export type RequestOptions<T> = {
   method: "GET" | "POST" | "PUT" | "DELETE";
   path: string;
   body?: unknown;
+  /** Validators from a previous response, sent as If-None-Match / If-Modified-Since */
+  validators?: CacheValidators;
+  /** Runtime check of the parsed body (throws InvalidResponse) */
+  validate?: ResponseValidator<T>;
 };
 
+/**
+ * HTTP cache validators from a response
+ */
+export type CacheValidators = {
+  etag?: string;
+  lastModified?: string;
+};
+
+/**
+ * Result of a conditional request
+ * notModified is true when the server answered 304 (the cached copy is still fresh)
+ */
+export type ConditionalResponse<T> =
+  | { notModified: true; validators: CacheValidators }
+  | { notModified: false; data: T; validators: CacheValidators };
+
 /**
  * API response shape for error responses
  */
 type ApiErrorResponse = {
-  error?: {
-    message?: string;
-    code?: string;
-  };
+  error?:
+    | string
+    | {
+        message?: string;
+        code?: string;
+      };
   message?: string;
   code?: string;
 };
@@ -104,17 +184,44 @@ type ApiErrorResponse = {
  */
 export async function httpRequest<T>(
   config: HttpRequestConfig,
-  options: RequestOptions
+  options: RequestOptions<T>
 ): Promise<T> {
-  const { appId, publicKey, fetchImpl = fetch, timeoutMs = DEFAULT_TIMEOUT_MS } = config;
-  const { method, path, body } = options;
+  const result = await httpRequestConditional<T>(config, options);
+
+  if (result.notModified) {
+    throw createApiError(304, `Unexpected 304 Not Modified for ${options.method} ${options.path}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Make an HTTP request that may be answered with 304 Not Modified
+ */
+export async function httpRequestConditional<T>(
+  config: HttpRequestConfig,
+  options: RequestOptions<T>
+): Promise<ConditionalResponse<T>> {
+  const {
+    appId,
+    publicKey,
+    fetchImpl = fetch,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    environment = "production",
+  } = config;
+  const { method, path, body, validators, validate } = options;
+
+  // Resolve origin and refuse insecure origins outside development installs
+  const apiOrigin = resolveApiOrigin(environment);
+  const developmentMode = await isDevelopmentMode();
+  assertSecureOrigin(apiOrigin, developmentMode);
 
   // Get extension user ID (creates if necessary)
-  const extensionUserId = await getOrCreateExtensionUserId();
+  const extensionUserId = await getOrCreateExtensionUserId(config.storage);
 
   // Build URL
-  const url = `${getApiOrigin()}${path}`;
-  
+  const url = `${apiOrigin}${path}`;
+
 
   // Build headers
   const headers: Record<string, string> = {
@@ -124,13 +231,14 @@ export async function httpRequest<T>(
     "X-App-Id": appId,
     "X-Extension-User-Id": extensionUserId,
     "X-SDK-Version": getSDKVersion(),
-    "X-Test-Mode": (await isDevelopmentMode()) ? "true" : "false",
+    "X-Test-Mode":
+      developmentMode || isNonProductionEnvironment(environment) ? "true" : "false",
   };
 
-    // Ngrok: skip the browser warning/interstitial (prevents HTML responses)
-    if (isNgrokOrigin(getApiOrigin())) {
-      headers["ngrok-skip-browser-warning"] = "true";
-    }
+  // Ngrok: skip the browser warning/interstitial (prevents HTML responses)
+  if (isNgrokOrigin(apiOrigin)) {
+    headers["ngrok-skip-browser-warning"] = "true";
+  }
 
   // Add extension ID if available
   const extensionId = getExtensionId();
@@ -138,26 +246,86 @@ export async function httpRequest<T>(
     headers["X-Extension-Id"] = extensionId;
   }
 
+  // Conditional request: let the server answer 304 if nothing changed
+  if (validators?.etag) {
+    headers["If-None-Match"] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+
+  // Build request options - only include body if provided (exactOptionalPropertyTypes)
+  const requestInit: RequestInit = {
+    method,
+    headers,
+  };
+
+  if (body !== undefined) {
+    requestInit.body = JSON.stringify(body);
+  }
+
+  return fetchWithRetry<T>(fetchImpl, url, requestInit, method, {
+    timeoutMs,
+    retry: config.retry,
+    validate,
+  });
+}
+
+/**
+ * Make a request, retrying failed attempts according to the retry policy
+ */
+export async function fetchWithRetry<T>(
+  fetchImpl: typeof fetch,
+  url: string,
+  requestInit: RequestInit,
+  method: RequestOptions<T>["method"],
+  opts: {
+    timeoutMs: number;
+    retry?: RetryPolicy | false | undefined;
+    validate?: ResponseValidator<T> | undefined;
+  }
+): Promise<ConditionalResponse<T>> {
+  const policy = resolveRetryPolicy(opts.retry);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchOnce<T>(fetchImpl, url, requestInit, opts.timeoutMs, opts.validate);
+    } catch (error) {
+      const delayMs = getRetryDelay(policy, method, attempt, error);
+      if (delayMs === null) {
+        throw error;
+      }
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Make a single request attempt with a timeout
+ */
+async function fetchOnce<T>(
+  fetchImpl: typeof fetch,
+  url: string,
+  requestInit: RequestInit,
+  timeoutMs: number,
+  validate?: ResponseValidator<T>
+): Promise<ConditionalResponse<T>> {
   // Create abort controller for timeout
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    // Build request options - only include body if provided (exactOptionalPropertyTypes)
-    const requestInit: RequestInit = {
-      method,
-      headers,
-      signal: controller.signal,
-    };
-
-    if (body !== undefined) {
-      requestInit.body = JSON.stringify(body);
-    }
-
-    const response = await fetchImpl(url, requestInit);
+    const response = await fetchImpl(url, { ...requestInit, signal: controller.signal });
 
     clearTimeout(timeoutId);
 
+    const validators = getCacheValidators(response.headers);
+
+    // Cached copy is still fresh
+    if (response.status === 304) {
+      return { notModified: true, validators };
+    }
+
     // Handle non-OK responses
     if (!response.ok) {
       return handleErrorResponse(response);
@@ -175,7 +343,7 @@ export async function httpRequest<T>(
         response.status,
         [
           `Expected JSON but got "${contentType || "unknown"}".`,
-          `method=${method}`,
+          `method=${requestInit.method ?? "GET"}`,
           `url=${url}`,
           `snippet="${snippet}"`,
         ].join(" ")
@@ -184,7 +352,7 @@ export async function httpRequest<T>(
 
     // Parse successful response
     const data: unknown = await response.json();
-    return data as T;
+    return { notModified: false, data: validate ? validate(data) : (data as T), validators };
   } catch (error) {
     clearTimeout(timeoutId);
 
@@ -203,10 +371,106 @@ export async function httpRequest<T>(
   }
 }
 
+/**
+ * Read ETag / Last-Modified from response headers
+ */
+function getCacheValidators(headers: Headers): CacheValidators {
+  const validators: CacheValidators = {};
+
+  const etag = headers.get("etag");
+  if (etag) validators.etag = etag;
+
+  const lastModified = headers.get("last-modified");
+  if (lastModified) validators.lastModified = lastModified;
+
+  return validators;
+}
+
+/**
+ * Validate a user-supplied retry policy
+ *
+ * @throws BillingExtensionsError with type "ConfigError" if an attempt count or delay is unusable
+ */
+export function validateRetryPolicy(retry: RetryPolicy | false | undefined): void {
+  if (retry === undefined || retry === false) return;
+
+  const { maxAttempts } = retry;
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+    throw createConfigError("retry.maxAttempts must be a positive integer");
+  }
+
+  for (const option of ["baseDelayMs", "maxDelayMs"] as const) {
+    const value = retry[option];
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw createConfigError(`retry.${option} must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Resolve a partial retry policy against the defaults (false disables retries)
+ */
+function resolveRetryPolicy(retry: RetryPolicy | false | undefined): Required<RetryPolicy> {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ *
+ * @returns Delay before the next attempt in milliseconds, or null to give up
+ */
+function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  method: RequestOptions<unknown>["method"],
+  attempt: number,
+  error: unknown
+): number | null {
+  if (attempt >= policy.maxAttempts) return null;
+  if (!policy.retryMethods.includes(method)) return null;
+  if (!isBillingExtensionsError(error)) return null;
+
+  const retryable =
+    error.type === "NetworkError" ||
+    (error.status !== undefined && policy.retryOnStatus.includes(error.status));
+  if (!retryable) return null;
+
+  // Server told us how long to wait - honour it, but don't wait longer than maxDelayMs
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (value === null) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 /**
  * Handle error responses from the API
  */
-async function handleErrorResponse(response: Response): Promise<never> {
+export async function handleErrorResponse(response: Response): Promise<never> {
   const status = response.status;
 
   // Try to parse error body
@@ -218,16 +482,28 @@ async function handleErrorResponse(response: Response): Promise<never> {
   }
 
   // Extract message and code
+  // The Developer API returns { error: "message" }, the SDK API { error: { message, code } }
+  const nested = typeof errorBody?.error === "object" ? errorBody.error : undefined;
+  const flat = typeof errorBody?.error === "string" ? errorBody.error : undefined;
+
   const message =
-    errorBody?.error?.message ?? errorBody?.message ?? response.statusText ?? "Unknown error";
-  const code = errorBody?.error?.code ?? errorBody?.code;
+    nested?.message ?? flat ?? errorBody?.message ?? response.statusText ?? "Unknown error";
+  const code = nested?.code ?? errorBody?.code;
+
+  const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
 
   // Handle specific status codes
   if (status === 401) {
     throw createUnauthorizedError(message);
   }
 
-  throw createApiError(status, message, code);
+  if (status === 429) {
+    throw createRateLimitedError(message, retryAfterMs, code);
+  }
+
+  const error = createApiError(status, message, code);
+  if (retryAfterMs !== undefined) error.retryAfterMs = retryAfterMs;
+  throw error;
 }
 
 /**
@@ -235,9 +511,33 @@ async function handleErrorResponse(response: Response): Promise<never> {
  */
 export function createHttpClient(config: HttpRequestConfig) {
   return {
-    get: <T>(path: string) => httpRequest<T>(config, { method: "GET", path }),
-    post: <T>(path: string, body?: unknown) => httpRequest<T>(config, { method: "POST", path, body }),
+    get: <T>(path: string, validate?: ResponseValidator<T>) =>
+      httpRequest<T>(config, withValidate({ method: "GET", path }, validate)),
+    getConditional: <T>(
+      path: string,
+      validators?: CacheValidators,
+      validate?: ResponseValidator<T>
+    ) =>
+      httpRequestConditional<T>(
+        config,
+        withValidate(
+          validators ? { method: "GET", path, validators } : { method: "GET", path },
+          validate
+        )
+      ),
+    post: <T>(path: string, body?: unknown, validate?: ResponseValidator<T>) =>
+      httpRequest<T>(config, withValidate({ method: "POST", path, body }, validate)),
     put: <T>(path: string, body?: unknown) => httpRequest<T>(config, { method: "PUT", path, body }),
     delete: <T>(path: string) => httpRequest<T>(config, { method: "DELETE", path }),
   };
 }
+
+/**
+ * Attach an optional validator (exactOptionalPropertyTypes)
+ */
+function withValidate<T>(
+  options: RequestOptions<T>,
+  validate: ResponseValidator<T> | undefined
+): RequestOptions<T> {
+  return validate ? { ...options, validate } : options;
+}
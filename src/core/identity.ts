@@ -1,20 +1,23 @@
 /**
  * Identity Management
  *
- * Handles the persistent extensionUserId stored in chrome.storage.local.
+ * Handles the persistent extensionUserId stored in the local storage area.
  */
 
+import type { StorageAdapter } from "../client/types.js";
+import { hasLocks, withLock } from "./locks.js";
+import { getRuntimeId } from "./platform.js";
 import { getFromLocalStorage, setInLocalStorage } from "./storage.js";
 
 /**
  * Storage key for the extension user ID
  */
-const EXTENSION_USER_ID_KEY = "extensionUserId";
+const EXTENSION_USER_ID_KEY = "user_id";
 
 /**
- * Cached user ID to avoid repeated storage reads
+ * Cached user IDs (per storage adapter) to avoid repeated storage reads
  */
-let cachedUserId: string | null = null;
+let cachedUserIds = new WeakMap<StorageAdapter, string>();
 
 /**
  * Generate a UUID v4
@@ -54,60 +57,94 @@ function generateUUID(): string {
   });
 }
 
+/**
+ * Lock that serializes ID creation across the extension's contexts
+ */
+const USER_ID_LOCK = "billingextensions_user_id";
+
+/**
+ * In-flight ID lookups (per storage adapter), so concurrent callers share one
+ */
+const pendingUserIds = new WeakMap<StorageAdapter, Promise<string>>();
+
+async function readStoredUserId(storage: StorageAdapter): Promise<string | undefined> {
+  const storedId = await getFromLocalStorage<string>(storage, EXTENSION_USER_ID_KEY);
+  return typeof storedId === "string" && storedId.length > 0 ? storedId : undefined;
+}
+
+/**
+ * Store a new ID unless another context created one first
+ */
+async function createUserId(storage: StorageAdapter): Promise<string> {
+  const existingId = await readStoredUserId(storage);
+  if (existingId !== undefined) return existingId;
+
+  const newId = generateUUID();
+  await setInLocalStorage(storage, EXTENSION_USER_ID_KEY, newId);
+  return newId;
+}
+
+async function loadOrCreateUserId(storage: StorageAdapter): Promise<string> {
+  const storedId = await readStoredUserId(storage);
+  if (storedId !== undefined) return storedId;
+
+  if (hasLocks()) {
+    return withLock(USER_ID_LOCK, () => createUserId(storage));
+  }
+
+  // Without Web Locks (e.g. content scripts, which run in the page's origin)
+  // two contexts can still race here; reading back only narrows the window
+  const newId = await createUserId(storage);
+  return (await readStoredUserId(storage)) ?? newId;
+}
+
 /**
  * Get or create the extension user ID
  *
- * - Reads from chrome.storage.local
- * - If missing, generates a UUID and stores it
+ * - Reads from the local storage area
+ * - If missing, creates and stores a UUID under a Web Lock, so only one
+ *   extension context can create it
  * - Caches the result in memory
  */
-export async function getOrCreateExtensionUserId(): Promise<string> {
+export async function getOrCreateExtensionUserId(storage: StorageAdapter): Promise<string> {
   // Return cached value if available
-  if (cachedUserId !== null) {
+  const cachedUserId = cachedUserIds.get(storage);
+  if (cachedUserId !== undefined) {
     return cachedUserId;
   }
 
-  // Try to read from storage
-  const storedId = await getFromLocalStorage<string>(EXTENSION_USER_ID_KEY);
-
-  if (storedId !== undefined && typeof storedId === "string" && storedId.length > 0) {
-    cachedUserId = storedId;
-    return storedId;
+  let pending = pendingUserIds.get(storage);
+  if (!pending) {
+    pending = loadOrCreateUserId(storage).finally(() => pendingUserIds.delete(storage));
+    pendingUserIds.set(storage, pending);
   }
 
-  // Generate new ID
-  const newId = generateUUID();
-
-  // Store it
-  await setInLocalStorage(EXTENSION_USER_ID_KEY, newId);
+  const userId = await pending;
 
   // Cache it
-  cachedUserId = newId;
+  cachedUserIds.set(storage, userId);
 
-  return newId;
+  return userId;
 }
 
 /**
  * Get the cached user ID without making storage calls
  * Returns null if not yet loaded
  */
-export function getCachedExtensionUserId(): string | null {
-  return cachedUserId;
+export function getCachedExtensionUserId(storage: StorageAdapter): string | null {
+  return cachedUserIds.get(storage) ?? null;
 }
 
 /**
  * Clear the cached user ID (mainly for testing)
  */
 export function clearCachedExtensionUserId(): void {
-  cachedUserId = null;
+  cachedUserIds = new WeakMap();
 }
 
 /**
- * Get the Chrome extension ID if available
+ * Get the extension ID if available
  */
 export function getExtensionId(): string | undefined {
-  if (typeof chrome !== "undefined" && chrome.runtime?.id) {
-    return chrome.runtime.id;
-  }
-  return undefined;
+  return getRuntimeId();
 }
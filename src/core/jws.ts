@@ -0,0 +1,160 @@
+/**
+ * JWS Verification
+ *
+ * Verifies compact JWS tokens (JWTs) offline with WebCrypto against pinned
+ * public keys. Supports ES256 (ECDSA P-256) and EdDSA (Ed25519).
+ */
+
+import { createInvalidTokenError } from "./errors.js";
+
+/**
+ * Public key in JWK format, optionally identified by kid
+ */
+export type PublicJwk = JsonWebKey & { kid?: string };
+
+/**
+ * Registered JWT claims used by the SDK
+ */
+export type JwtClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string;
+  iat?: number;
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+};
+
+type JwsHeader = {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+};
+
+/**
+ * WebCrypto parameters per supported JWS algorithm
+ */
+const ALGORITHMS: Record<
+  string,
+  { importParams: EcKeyImportParams | Algorithm; verifyParams: EcdsaParams | Algorithm }
+> = {
+  ES256: {
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+  EdDSA: {
+    importParams: { name: "Ed25519" },
+    verifyParams: { name: "Ed25519" },
+  },
+};
+
+/**
+ * Decode base64url to bytes
+ */
+export function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJsonSegment<T>(segment: string, what: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+  } catch (error) {
+    throw createInvalidTokenError(`Malformed token ${what}`, error);
+  }
+}
+
+/**
+ * Get the WebCrypto SubtleCrypto implementation
+ */
+function getSubtle(subtle?: SubtleCrypto): SubtleCrypto {
+  const impl = subtle ?? globalThis.crypto?.subtle;
+  if (!impl) {
+    throw createInvalidTokenError(
+      "WebCrypto is not available - pass a SubtleCrypto implementation (e.g. node:crypto webcrypto.subtle)"
+    );
+  }
+  return impl;
+}
+
+/**
+ * Verify a compact JWS signature and return its decoded claims
+ *
+ * Does not check time claims - use assertTokenTimes() for that.
+ *
+ * @param token - Compact JWS (header.payload.signature)
+ * @param keys - Trusted public keys; if the token has a kid, only the matching key is tried
+ * @param subtle - Optional SubtleCrypto implementation (default: globalThis.crypto.subtle)
+ * @throws BillingExtensionsError with type "InvalidToken"
+ */
+export async function verifyJws<T extends JwtClaims = JwtClaims>(
+  token: string,
+  keys: PublicJwk[],
+  subtle?: SubtleCrypto
+): Promise<T> {
+  const parts = typeof token === "string" ? token.split(".") : [];
+  if (parts.length !== 3) {
+    throw createInvalidTokenError("Token must be a compact JWS with three segments");
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = parts as [string, string, string];
+  const header = decodeJsonSegment<JwsHeader>(headerSegment, "header");
+
+  const algorithm = header.alg !== undefined ? ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    throw createInvalidTokenError(`Unsupported token algorithm "${String(header.alg)}"`);
+  }
+
+  const candidates = header.kid !== undefined ? keys.filter((key) => key.kid === header.kid) : keys;
+  if (candidates.length === 0) {
+    throw createInvalidTokenError(`No trusted key matches kid "${String(header.kid)}"`);
+  }
+
+  const crypto = getSubtle(subtle);
+  const signingInput = new TextEncoder().encode(`${headerSegment}.${payloadSegment}`);
+  const signature = base64UrlDecode(signatureSegment);
+
+  for (const jwk of candidates) {
+    try {
+      const key = await crypto.importKey("jwk", jwk, algorithm.importParams, false, ["verify"]);
+      if (await crypto.verify(algorithm.verifyParams, key, signature, signingInput)) {
+        return decodeJsonSegment<T>(payloadSegment, "payload");
+      }
+    } catch {
+      // Key doesn't fit this algorithm - try the next one
+    }
+  }
+
+  throw createInvalidTokenError("Token signature is invalid");
+}
+
+/**
+ * Check exp / nbf / iat claims
+ *
+ * @param claims - Decoded claims
+ * @param clockToleranceSec - Allowed clock skew in seconds
+ * @param now - Current time in milliseconds (default: Date.now())
+ * @throws BillingExtensionsError with type "InvalidToken"
+ */
+export function assertTokenTimes(claims: JwtClaims, clockToleranceSec = 0, now = Date.now()): void {
+  const nowSec = Math.floor(now / 1000);
+
+  if (typeof claims.exp === "number" && nowSec - clockToleranceSec >= claims.exp) {
+    throw createInvalidTokenError("Token has expired", undefined, "token_expired");
+  }
+
+  if (typeof claims.nbf === "number" && nowSec + clockToleranceSec < claims.nbf) {
+    throw createInvalidTokenError("Token is not valid yet");
+  }
+
+  if (typeof claims.iat === "number" && nowSec + clockToleranceSec < claims.iat) {
+    throw createInvalidTokenError("Token was issued in the future");
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Offline Licenses
+ *
+ * Persists the signed license returned by license activation in the local
+ * storage area and turns a valid one into a UserStatus, so one-time
+ * purchases keep working while the API is unreachable.
+ */
+
+import type { StorageAdapter, UserStatus } from "../client/types.js";
+import { createInvalidTokenError } from "./errors.js";
+import { assertTokenTimes, verifyJws, type JwtClaims, type PublicJwk } from "./jws.js";
+import { getFromLocalStorage, setInLocalStorage } from "./storage.js";
+import { createValidator } from "./validate.js";
+
+/**
+ * Storage key for the activated license
+ */
+export const LICENSE_STORAGE_KEY = "license";
+
+/**
+ * Allowed clock skew in seconds when checking license times
+ */
+const CLOCK_TOLERANCE_SEC = 30;
+
+type UserPlan = NonNullable<UserStatus["plan"]>;
+
+const validateUserPlan = createValidator<UserPlan>("UserPlan");
+
+/**
+ * Verified license claims
+ */
+export type LicenseClaims = JwtClaims & {
+  /** Extension user ID the license was activated for */
+  sub: string;
+  /** App ID */
+  aud: string;
+  /** Licensed plan */
+  plan: UserPlan;
+};
+
+/**
+ * Persisted license
+ */
+export type StoredLicense = {
+  /** Compact JWS from the activation endpoint */
+  license: string;
+  activatedAt: number; // Unix timestamp in milliseconds
+};
+
+/**
+ * Verify a signed license
+ *
+ * @param token - Compact JWS license
+ * @param keys - Pinned public keys (config.verificationKeys)
+ * @param expected - App ID (aud) and extension user ID (sub) the license must be bound to
+ * @throws BillingExtensionsError with type "InvalidToken"
+ */
+export async function verifyLicense(
+  token: string,
+  keys: PublicJwk[],
+  expected: { appId: string; extensionUserId: string }
+): Promise<LicenseClaims> {
+  const claims = await verifyJws<Partial<LicenseClaims>>(token, keys);
+  assertTokenTimes(claims, CLOCK_TOLERANCE_SEC);
+
+  if (claims.aud !== expected.appId) {
+    throw createInvalidTokenError("License was issued for a different app");
+  }
+  if (claims.sub !== expected.extensionUserId) {
+    throw createInvalidTokenError("License was issued for a different user");
+  }
+
+  try {
+    validateUserPlan(claims.plan);
+  } catch (error) {
+    throw createInvalidTokenError("License is missing a valid plan", error);
+  }
+
+  return claims as LicenseClaims;
+}
+
+/**
+ * Build the status a valid license grants
+ */
+export function licenseToStatus(claims: LicenseClaims): UserStatus {
+  return {
+    extensionUserId: claims.sub,
+    paid: true,
+    subscriptionStatus: "active",
+    plan: { id: claims.plan.id, name: claims.plan.name },
+    currentPeriodEnd:
+      typeof claims.exp === "number" ? new Date(claims.exp * 1000).toISOString() : null,
+    cancelAtPeriodEnd: false,
+  };
+}
+
+/**
+ * Read the persisted license
+ */
+export async function getStoredLicense(storage: StorageAdapter): Promise<StoredLicense | null> {
+  return (await getFromLocalStorage<StoredLicense>(storage, LICENSE_STORAGE_KEY)) ?? null;
+}
+
+/**
+ * Persist a license
+ */
+export async function saveLicense(storage: StorageAdapter, license: string): Promise<void> {
+  await setInLocalStorage<StoredLicense>(storage, LICENSE_STORAGE_KEY, {
+    license,
+    activatedAt: Date.now(),
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Lifecycle Events
+ *
+ * Derives subscription lifecycle transitions (trial started, subscribed,
+ * past due, ...) from previous and next UserStatus in one place.
+ *
+ * Every context sees the same status change through the storage listener; each
+ * event is claimed in storage so only one context emits it.
+ */
+
+import type { LifecycleEventType, StorageAdapter, UserStatus } from "../client/types.js";
+import { withLock } from "./locks.js";
+import { getFromLocalStorage, setInLocalStorage } from "./storage.js";
+
+/**
+ * Storage key for recently emitted lifecycle events
+ */
+const LIFECYCLE_CLAIMS_KEY = "lifecycle_claims";
+
+/**
+ * Lock serializing claims across the extension's contexts
+ */
+const LIFECYCLE_CLAIMS_LOCK = "billingextensions_lifecycle_claims";
+
+/**
+ * Forget claims after a day, and keep at most a few dozen
+ */
+const LIFECYCLE_CLAIM_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_LIFECYCLE_CLAIMS = 50;
+
+type LifecycleClaim = {
+  id: string;
+  claimedAt: number; // Unix timestamp in milliseconds
+};
+
+/**
+ * Parse currentPeriodEnd to a timestamp (null if missing or invalid)
+ */
+function periodEnd(status: UserStatus): number | null {
+  if (!status.currentPeriodEnd) return null;
+
+  const time = Date.parse(status.currentPeriodEnd);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Compute the lifecycle events for a status transition
+ *
+ * Without a previous status nothing can be said about transitions, so the
+ * first status a context sees emits no events.
+ */
+export function computeLifecycleEvents(
+  prev: UserStatus | null,
+  next: UserStatus
+): LifecycleEventType[] {
+  if (prev === null) return [];
+
+  const events: LifecycleEventType[] = [];
+  const prevState = prev.subscriptionStatus;
+  const nextState = next.subscriptionStatus;
+
+  if (nextState === "trialing" && prevState !== "trialing") {
+    events.push("trialStarted");
+  }
+
+  // New subscription or trial conversion (past_due -> active is a renewal)
+  if (nextState === "active" && prevState !== "active" && prevState !== "past_due") {
+    events.push("subscribed");
+  }
+
+  if (nextState === "past_due" && prevState !== "past_due") {
+    events.push("pastDue");
+  }
+
+  if (next.paid && next.cancelAtPeriodEnd && !prev.cancelAtPeriodEnd) {
+    events.push("cancellationScheduled");
+  }
+
+  if (next.paid && prev.paid && prev.cancelAtPeriodEnd && !next.cancelAtPeriodEnd) {
+    events.push("reactivated");
+  }
+
+  // A failed payment that revokes access is reported as pastDue only
+  if (prev.paid && !next.paid && nextState !== "past_due") {
+    events.push("expired");
+  }
+
+  // Billing period moved forward on an existing subscription (not a trial conversion)
+  const prevEnd = periodEnd(prev);
+  const nextEnd = periodEnd(next);
+  if (
+    (prevState === "active" || prevState === "past_due") &&
+    nextState === "active" &&
+    prevEnd !== null &&
+    nextEnd !== null &&
+    nextEnd > prevEnd
+  ) {
+    events.push("renewed");
+  }
+
+  return events;
+}
+
+/**
+ * Claim a lifecycle event so only one context emits it
+ *
+ * Claims are made under a Web Lock; without one (content scripts) two contexts
+ * can still both win.
+ *
+ * @param id - Event type plus an ID of the status change every context agrees on
+ * @returns true if this context should emit the event (also when claims can't be stored)
+ */
+export async function claimLifecycleEvent(storage: StorageAdapter, id: string): Promise<boolean> {
+  return withLock(LIFECYCLE_CLAIMS_LOCK, async () => {
+    try {
+      const now = Date.now();
+      const claims = (
+        (await getFromLocalStorage<LifecycleClaim[]>(storage, LIFECYCLE_CLAIMS_KEY)) ?? []
+      ).filter((claim) => now - claim.claimedAt < LIFECYCLE_CLAIM_TTL_MS);
+
+      if (claims.some((claim) => claim.id === id)) return false;
+
+      claims.push({ id, claimedAt: now });
+      await setInLocalStorage(storage, LIFECYCLE_CLAIMS_KEY, claims.slice(-MAX_LIFECYCLE_CLAIMS));
+      return true;
+    } catch {
+      // Better twice than never
+      return true;
+    }
+  });
+}
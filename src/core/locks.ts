@@ -0,0 +1,31 @@
+/**
+ * Cross-Context Locks
+ *
+ * Serializes read-modify-write sequences on extension storage with the Web
+ * Locks API. An extension's pages and service worker share its origin, so they
+ * share its locks. Content scripts run in the page's origin and don't.
+ */
+
+type LockManagerLike = {
+  request<T>(name: string, callback: () => Promise<T>): Promise<T>;
+};
+
+function getLockManager(): LockManagerLike | undefined {
+  const locks = (globalThis as { navigator?: { locks?: LockManagerLike } }).navigator?.locks;
+  return typeof locks?.request === "function" ? locks : undefined;
+}
+
+/**
+ * Check whether cross-context locks are available
+ */
+export function hasLocks(): boolean {
+  return getLockManager() !== undefined;
+}
+
+/**
+ * Run a callback while holding the named lock (or right away without Web Locks)
+ */
+export function withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+  const locks = getLockManager();
+  return locks ? locks.request(name, callback) : callback();
+}
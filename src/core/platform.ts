@@ -0,0 +1,87 @@
+/**
+ * WebExtension Platform
+ *
+ * Detects the extension API namespace: the promise-based `browser.*` (Firefox,
+ * Safari) or `chrome.*` (Chrome, Edge and other Chromium browsers). The SDK
+ * only uses the promise forms of both, so it runs in a Firefox MV3 build
+ * without webextension-polyfill. APIs a browser may lack have explicit
+ * fallbacks (see isDevelopmentMode() and the storage adapters).
+ */
+
+/**
+ * Extension API namespace
+ *
+ * `browser.*` mirrors the `chrome.*` typings for every API the SDK uses.
+ */
+export type ExtensionApi = typeof chrome;
+
+/**
+ * Which namespace the SDK is running against
+ */
+export type ExtensionPlatform = "browser" | "chrome";
+
+/**
+ * Get the `browser` namespace if it is a real extension API
+ */
+function getBrowserNamespace(): ExtensionApi | undefined {
+  const browser = (globalThis as { browser?: ExtensionApi }).browser;
+  return browser?.runtime !== undefined ? browser : undefined;
+}
+
+/**
+ * Get the `chrome` namespace if it is a real extension API
+ */
+function getChromeNamespace(): ExtensionApi | undefined {
+  return typeof chrome !== "undefined" && chrome.runtime !== undefined ? chrome : undefined;
+}
+
+/**
+ * Detect the extension platform
+ *
+ * @returns "browser" when the promise-based namespace exists, "chrome" for
+ *   Chromium, or null outside an extension
+ */
+export function detectPlatform(): ExtensionPlatform | null {
+  if (getBrowserNamespace()) return "browser";
+  if (getChromeNamespace()) return "chrome";
+  return null;
+}
+
+/**
+ * Get the extension API namespace (`browser` preferred), or undefined outside an extension
+ */
+export function getExtensionApi(): ExtensionApi | undefined {
+  return getBrowserNamespace() ?? getChromeNamespace();
+}
+
+/**
+ * Get the extension ID if available
+ */
+export function getRuntimeId(): string | undefined {
+  const id = getExtensionApi()?.runtime?.id;
+  return id ? id : undefined;
+}
+
+/**
+ * Check whether the extension is a development install
+ *
+ * Only reports development mode when the browser confirms it:
+ * management.getSelf() says "development", or (Firefox) the extension runs as
+ * a temporary add-on with a "@temporary-addon" ID. Anything else, including
+ * an API that's missing or throws, counts as a store install.
+ */
+export async function isDevelopmentMode(): Promise<boolean> {
+  const api = getExtensionApi();
+  if (!api) return false;
+
+  try {
+    if (typeof api.management?.getSelf === "function") {
+      const info = await api.management.getSelf();
+      if (info.installType === "development") return true;
+    }
+  } catch {
+    // Fall through to the temporary add-on check
+  }
+
+  return getRuntimeId()?.endsWith("@temporary-addon") ?? false;
+}
@@ -0,0 +1,78 @@
+/**
+ * Pricing Utilities
+ *
+ * Formats plan prices for display. priceAmount is in the currency's minor unit,
+ * so the number of decimals comes from Intl (e.g. 2 for USD, 0 for JPY).
+ */
+
+import type { PlanForSDK } from "../client/types.js";
+
+/**
+ * Number of minor-unit decimals for a currency (2 for USD, 0 for JPY, 3 for KWD)
+ */
+function getCurrencyDigits(currency: string): number {
+  const { maximumFractionDigits } = new Intl.NumberFormat("en", {
+    style: "currency",
+    currency,
+  }).resolvedOptions();
+  return maximumFractionDigits ?? 2;
+}
+
+/**
+ * Format a minor-unit amount as a currency string
+ * Whole amounts drop the fraction ("$49" rather than "$49.00")
+ */
+function formatAmount(amountMinor: number, currency: string, locale?: string): string {
+  const code = currency.toUpperCase();
+  const digits = getCurrencyDigits(code);
+  const amount = amountMinor / 10 ** digits;
+  const isWhole = Number.isInteger(amount);
+
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: code,
+    minimumFractionDigits: isWhole ? 0 : digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+}
+
+/**
+ * Check if a plan is a one-time purchase
+ */
+function isOneTime(plan: PlanForSDK): boolean {
+  return plan.billingType === "one_time" || plan.interval === null;
+}
+
+/**
+ * Describe a plan's billing interval
+ *
+ * @example
+ * describeInterval(monthly) // "month"
+ * describeInterval(quarterly) // "3 months"
+ * describeInterval(lifetime) // "one-time"
+ */
+export function describeInterval(plan: PlanForSDK): string {
+  if (isOneTime(plan) || plan.interval === null) return "one-time";
+
+  const count = plan.intervalCount > 0 ? plan.intervalCount : 1;
+  return count === 1 ? plan.interval : `${count} ${plan.interval}s`;
+}
+
+/**
+ * Format a plan's price for display
+ *
+ * @param plan - Plan from getPlans()
+ * @param locale - BCP 47 locale for number formatting (default: runtime locale)
+ *
+ * @example
+ * formatPlanPrice(monthly) // "$4.99 / month"
+ * formatPlanPrice(lifetime) // "$49 one-time"
+ * formatPlanPrice(yenMonthly, "ja-JP") // "￥500 / month"
+ */
+export function formatPlanPrice(plan: PlanForSDK, locale?: string): string {
+  const price = formatAmount(plan.priceAmount, plan.currency, locale);
+
+  if (isOneTime(plan)) return `${price} one-time`;
+
+  return `${price} / ${describeInterval(plan)}`;
+}
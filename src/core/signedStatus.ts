@@ -0,0 +1,54 @@
+/**
+ * Signed Status
+ *
+ * Verifies the signed status envelope (UserStatus.signedStatus) against pinned
+ * public keys so a status edited in chrome.storage is never trusted.
+ */
+
+import type { UserStatus } from "../client/types.js";
+import { createInvalidTokenError } from "./errors.js";
+import { assertTokenTimes, verifyJws, type JwtClaims, type PublicJwk } from "./jws.js";
+import { validateUserStatus } from "./validate.js";
+
+/**
+ * Allowed clock skew in seconds when checking envelope times
+ */
+const CLOCK_TOLERANCE_SEC = 30;
+
+type SignedStatusClaims = JwtClaims & {
+  status?: unknown;
+};
+
+/**
+ * Verify a signed status envelope and return the status it carries
+ *
+ * @param token - Compact JWS from UserStatus.signedStatus
+ * @param keys - Pinned public keys (config.verificationKeys)
+ * @param expected - App ID (aud) and extension user ID (sub) the envelope must be bound to
+ * @param expiredGraceMs - How long past its exp the envelope is still accepted (offline grace)
+ * @throws BillingExtensionsError with type "InvalidToken" (or "InvalidResponse" for a malformed status)
+ */
+export async function verifySignedStatus(
+  token: string,
+  keys: PublicJwk[],
+  expected: { appId: string; extensionUserId: string },
+  expiredGraceMs = 0
+): Promise<UserStatus> {
+  const claims = await verifyJws<SignedStatusClaims>(token, keys);
+
+  if (typeof claims.exp !== "number") {
+    throw createInvalidTokenError("Signed status is missing an expiry (exp)");
+  }
+  assertTokenTimes(
+    { ...claims, exp: claims.exp + Math.floor(expiredGraceMs / 1000) },
+    CLOCK_TOLERANCE_SEC
+  );
+  if (claims.aud !== expected.appId) {
+    throw createInvalidTokenError("Signed status was issued for a different app");
+  }
+  if (claims.sub !== expected.extensionUserId) {
+    throw createInvalidTokenError("Signed status was issued for a different user");
+  }
+
+  return validateUserStatus(claims.status);
+}
@@ -0,0 +1,302 @@
+/**
+ * Storage Adapters
+ *
+ * Built-in StorageAdapter implementations: chrome.storage and browser.storage
+ * (the default is picked by platform), in-memory (tests) and
+ * window.localStorage (web builds, Electron renderers).
+ */
+
+import type { StorageAdapter, StorageArea, StorageChange } from "../client/types.js";
+import { createRuntimeError, type BillingExtensionsError } from "./errors.js";
+import { detectPlatform, type ExtensionApi, type ExtensionPlatform } from "./platform.js";
+
+type ChangeListener = (changes: Record<string, StorageChange>, area: StorageArea) => void;
+
+function isStorageArea(areaName: string): areaName is StorageArea {
+  return areaName === "local" || areaName === "session";
+}
+
+/**
+ * Copy a value the way extension storage would (JSON round trip)
+ */
+function cloneValue<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+/**
+ * Notify listeners asynchronously, like chrome.storage.onChanged
+ */
+function notifyListeners(
+  listeners: Set<ChangeListener>,
+  changes: Record<string, StorageChange>,
+  area: StorageArea
+): void {
+  queueMicrotask(() => {
+    for (const listener of listeners) {
+      try {
+        listener(changes, area);
+      } catch {
+        // A throwing listener shouldn't affect the others
+      }
+    }
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// chrome.storage / browser.storage
+// ═══════════════════════════════════════════════════════════════════════════
+
+type StorageNamespace = typeof chrome.storage;
+
+/**
+ * Resolve a storage area, mapping storage.session to storage.local where it's
+ * missing (Firefox before 115, MV2)
+ */
+function resolveStorageArea(
+  storage: StorageNamespace | undefined,
+  area: StorageArea,
+  namespace: ExtensionPlatform
+): chrome.storage.StorageArea {
+  const resolved =
+    area === "session" && storage?.session !== undefined ? storage.session : storage?.local;
+  if (!resolved) {
+    throw createRuntimeError(`${namespace}.storage.local is not available`);
+  }
+  return resolved;
+}
+
+function toStorageError(error: unknown, fallback: string): BillingExtensionsError {
+  return createRuntimeError(error instanceof Error && error.message ? error.message : fallback);
+}
+
+/**
+ * Adapter over the promise-based extension storage API of a namespace
+ */
+function createExtensionStorageAdapter(
+  getStorage: () => StorageNamespace | undefined,
+  namespace: ExtensionPlatform
+): StorageAdapter {
+  return {
+    get: async <T>(area: StorageArea, key: string) => {
+      const storage = resolveStorageArea(getStorage(), area, namespace);
+      try {
+        const result = (await storage.get([key])) as Record<string, unknown>;
+        return result[key] as T | undefined;
+      } catch (error) {
+        throw toStorageError(error, "Storage read failed");
+      }
+    },
+
+    set: async <T>(area: StorageArea, key: string, value: T) => {
+      const storage = resolveStorageArea(getStorage(), area, namespace);
+      try {
+        await storage.set({ [key]: value });
+      } catch (error) {
+        throw toStorageError(error, "Storage write failed");
+      }
+    },
+
+    remove: async (area: StorageArea, key: string) => {
+      const storage = resolveStorageArea(getStorage(), area, namespace);
+      try {
+        await storage.remove([key]);
+      } catch (error) {
+        throw toStorageError(error, "Storage remove failed");
+      }
+    },
+
+    subscribe: (listener) => {
+      const onChangedEvent = getStorage()?.onChanged;
+      if (!onChangedEvent) return () => {};
+
+      const onChanged = (changes: Record<string, StorageChange>, areaName: string) => {
+        if (isStorageArea(areaName)) listener(changes, areaName);
+      };
+
+      onChangedEvent.addListener(onChanged);
+      return () => onChangedEvent.removeListener(onChanged);
+    },
+  };
+}
+
+/**
+ * Adapter for chrome.storage.local / chrome.storage.session
+ */
+export function createChromeStorageAdapter(): StorageAdapter {
+  return createExtensionStorageAdapter(
+    () => (typeof chrome !== "undefined" ? chrome.storage : undefined),
+    "chrome"
+  );
+}
+
+/**
+ * Adapter for the promise-based browser.storage API (Firefox, Safari)
+ */
+export function createBrowserStorageAdapter(): StorageAdapter {
+  return createExtensionStorageAdapter(
+    () => (globalThis as { browser?: ExtensionApi }).browser?.storage,
+    "browser"
+  );
+}
+
+/**
+ * Shared adapter used when the config doesn't pass one
+ */
+let defaultStorageAdapter: StorageAdapter | null = null;
+
+/**
+ * Get the default storage adapter for the detected platform (browser.storage
+ * on Firefox/Safari, chrome.storage otherwise)
+ */
+export function getDefaultStorageAdapter(): StorageAdapter {
+  defaultStorageAdapter ??=
+    detectPlatform() === "browser" ? createBrowserStorageAdapter() : createChromeStorageAdapter();
+  return defaultStorageAdapter;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// In-memory
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Adapter that keeps everything in memory (unit tests, server-side rendering)
+ *
+ * Values are copied on write and read, and listeners are notified
+ * asynchronously, like chrome.storage.
+ */
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const areas: Record<StorageArea, Map<string, unknown>> = {
+    local: new Map(),
+    session: new Map(),
+  };
+  const listeners = new Set<ChangeListener>();
+
+  return {
+    get: <T>(area: StorageArea, key: string) =>
+      Promise.resolve(cloneValue(areas[area].get(key)) as T | undefined),
+
+    set: <T>(area: StorageArea, key: string, value: T) => {
+      const oldValue = areas[area].get(key);
+      const newValue = cloneValue(value);
+      areas[area].set(key, newValue);
+      notifyListeners(listeners, { [key]: { oldValue, newValue: cloneValue(newValue) } }, area);
+      return Promise.resolve();
+    },
+
+    remove: (area: StorageArea, key: string) => {
+      if (areas[area].has(key)) {
+        const oldValue = areas[area].get(key);
+        areas[area].delete(key);
+        notifyListeners(listeners, { [key]: { oldValue } }, area);
+      }
+      return Promise.resolve();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// window.localStorage
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * localStorage adapter options
+ */
+export type LocalStorageAdapterOptions = {
+  /** Prefix for every key (default: "billingextensions:") */
+  prefix?: string;
+};
+
+function getWindowLocalStorage(): Storage {
+  if (typeof localStorage === "undefined") {
+    throw createRuntimeError("window.localStorage is not available");
+  }
+  return localStorage;
+}
+
+function parseStoredValue(raw: string | null): unknown {
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Adapter for window.localStorage (web app builds, Electron renderers)
+ *
+ * Both areas are stored in localStorage, so "session" keys persist. Changes
+ * made by other documents arrive through the window "storage" event.
+ */
+export function createLocalStorageAdapter(opts: LocalStorageAdapterOptions = {}): StorageAdapter {
+  const prefix = opts.prefix ?? "billingextensions:";
+  const listeners = new Set<ChangeListener>();
+
+  const storageKey = (area: StorageArea, key: string) => `${prefix}${area}:${key}`;
+
+  // Other documents' writes
+  const onStorageEvent = (event: StorageEvent) => {
+    if (event.key === null || !event.key.startsWith(prefix)) return;
+
+    const [area, ...rest] = event.key.slice(prefix.length).split(":");
+    if (area === undefined || !isStorageArea(area)) return;
+
+    notifyListeners(
+      listeners,
+      {
+        [rest.join(":")]: {
+          oldValue: parseStoredValue(event.oldValue),
+          newValue: parseStoredValue(event.newValue),
+        },
+      },
+      area
+    );
+  };
+
+  const readItem = (area: StorageArea, key: string): unknown =>
+    parseStoredValue(getWindowLocalStorage().getItem(storageKey(area, key)));
+
+  const writeItem = (area: StorageArea, key: string, value: unknown): void => {
+    const oldValue = readItem(area, key);
+    getWindowLocalStorage().setItem(storageKey(area, key), JSON.stringify(value));
+    notifyListeners(listeners, { [key]: { oldValue, newValue: cloneValue(value) } }, area);
+  };
+
+  const removeItem = (area: StorageArea, key: string): void => {
+    const oldValue = readItem(area, key);
+    getWindowLocalStorage().removeItem(storageKey(area, key));
+    if (oldValue !== undefined) notifyListeners(listeners, { [key]: { oldValue } }, area);
+  };
+
+  // Run synchronously but report failures (e.g. quota exceeded) as rejections
+  return {
+    get: <T>(area: StorageArea, key: string) =>
+      Promise.resolve().then(() => readItem(area, key) as T | undefined),
+
+    set: <T>(area: StorageArea, key: string, value: T) =>
+      Promise.resolve().then(() => writeItem(area, key, value)),
+
+    remove: (area: StorageArea, key: string) => Promise.resolve().then(() => removeItem(area, key)),
+
+    subscribe: (listener) => {
+      if (listeners.size === 0 && typeof window !== "undefined") {
+        window.addEventListener("storage", onStorageEvent);
+      }
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && typeof window !== "undefined") {
+          window.removeEventListener("storage", onStorageEvent);
+        }
+      };
+    },
+  };
+}
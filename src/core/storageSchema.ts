@@ -0,0 +1,159 @@
+/**
+ * Storage Schema
+ *
+ * Namespaces every key the SDK stores as `be:v<version>:<appId>:<key>` and
+ * migrates data written by older SDK versions before the first read or write.
+ * The schema version is recorded per app, so migrations run once per upgrade.
+ */
+
+import type { StorageAdapter, StorageArea, StorageChange } from "../client/types.js";
+
+/**
+ * Current storage schema version
+ */
+export const STORAGE_SCHEMA_VERSION = 2;
+
+/**
+ * Version of the un-namespaced layout used before schema versioning
+ */
+const LEGACY_SCHEMA_VERSION = 1;
+
+/**
+ * Key prefix for an app's data in the current schema
+ */
+export function getStorageNamespace(appId: string): string {
+  return `be:v${STORAGE_SCHEMA_VERSION}:${appId}:`;
+}
+
+/**
+ * Key recording which schema an app's data is in (outside any versioned
+ * namespace, so every SDK version can find it)
+ */
+function getSchemaVersionKey(appId: string): string {
+  return `be:schema:${appId}`;
+}
+
+/**
+ * A migration to a schema version
+ */
+type StorageMigration = {
+  version: number;
+  migrate: (storage: StorageAdapter, appId: string) => Promise<void>;
+};
+
+/**
+ * Legacy v1 caches whose shape is incompatible - dropped and refetched
+ */
+const V1_DROPPED_KEYS = [
+  "billingextensions_status_cache",
+  "billingextensions_plans_cache",
+  "billingextensions_last_swr_at",
+];
+
+/**
+ * Legacy v1 key for the extension user ID
+ */
+const V1_USER_ID_KEY = "extensionUserId";
+
+const MIGRATIONS: StorageMigration[] = [
+  {
+    // v1 -> v2: namespace keys per app
+    version: 2,
+    migrate: async (storage, appId) => {
+      const namespace = `be:v2:${appId}:`;
+
+      // The user ID is the user's identity on the server: copy it unchanged, and
+      // keep the legacy key for older SDK builds and other apps in this extension.
+      // This is the only step allowed to fail the migration.
+      const legacyUserId = await storage.get<string>("local", V1_USER_ID_KEY);
+      if (typeof legacyUserId === "string" && legacyUserId.length > 0) {
+        const existing = await storage.get<string>("local", `${namespace}user_id`);
+        if (existing === undefined) {
+          await storage.set("local", `${namespace}user_id`, legacyUserId);
+        }
+      }
+
+      // Caches were written to session storage, or local where it's missing.
+      // Best-effort: the session area may reject (e.g. in content scripts), and
+      // a leftover cache is harmless.
+      for (const legacyKey of V1_DROPPED_KEYS) {
+        for (const area of ["session", "local"] as const) {
+          await storage.remove(area, legacyKey).catch(() => {});
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Bring an app's stored data up to the current schema
+ *
+ * Each migration is idempotent and the version is recorded after each one, so
+ * a migration interrupted (or run concurrently by another context) is simply
+ * run again. A failed read stops the run before anything is recorded, so the
+ * user ID is never regenerated over an unreadable legacy one.
+ */
+export async function runStorageMigrations(storage: StorageAdapter, appId: string): Promise<void> {
+  const versionKey = getSchemaVersionKey(appId);
+  const recorded = await storage.get<number>("local", versionKey);
+  const current = typeof recorded === "number" ? recorded : LEGACY_SCHEMA_VERSION;
+
+  if (current >= STORAGE_SCHEMA_VERSION) return;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+
+    await migration.migrate(storage, appId);
+    await storage.set("local", versionKey, migration.version);
+  }
+}
+
+/**
+ * Wrap a storage adapter so keys are namespaced per app and schema version,
+ * and nothing is read or written before migrations have run
+ *
+ * A failed migration fails the storage call and is retried on the next one.
+ */
+export function createVersionedStorage(storage: StorageAdapter, appId: string): StorageAdapter {
+  const namespace = getStorageNamespace(appId);
+  let migrated: Promise<void> | null = null;
+
+  const ensureMigrated = (): Promise<void> => {
+    migrated ??= runStorageMigrations(storage, appId).catch((error: unknown) => {
+      migrated = null;
+      throw error;
+    });
+    return migrated;
+  };
+
+  return {
+    get: async <T>(area: StorageArea, key: string) => {
+      await ensureMigrated();
+      return storage.get<T>(area, `${namespace}${key}`);
+    },
+
+    set: async <T>(area: StorageArea, key: string, value: T) => {
+      await ensureMigrated();
+      await storage.set(area, `${namespace}${key}`, value);
+    },
+
+    remove: async (area: StorageArea, key: string) => {
+      await ensureMigrated();
+      await storage.remove(area, `${namespace}${key}`);
+    },
+
+    subscribe: (listener) =>
+      storage.subscribe((changes, area) => {
+        const scoped: Record<string, StorageChange> = {};
+        let hasChanges = false;
+
+        for (const [key, change] of Object.entries(changes)) {
+          if (!key.startsWith(namespace)) continue;
+          scoped[key.slice(namespace.length)] = change;
+          hasChanges = true;
+        }
+
+        if (hasChanges) listener(scoped, area);
+      }),
+  };
+}
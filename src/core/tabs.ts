@@ -2,26 +2,23 @@
  * Tab Opening Utilities
  *
  * Handles opening URLs in new tabs, supporting both
- * chrome.tabs API (service worker) and window.open (UI context).
+ * the tabs API (service worker) and window.open (UI context).
  */
 
 import { createRuntimeError, type BillingExtensionsError } from "./errors.js";
+import { getExtensionApi } from "./platform.js";
 
 /**
- * Check if chrome.tabs API is available
+ * Check if the tabs API is available
  */
-function isChromeTabsAvailable(): boolean {
-  return (
-    typeof chrome !== "undefined" &&
-    chrome.tabs !== undefined &&
-    typeof chrome.tabs.create === "function"
-  );
+function isTabsApiAvailable(): boolean {
+  return typeof getExtensionApi()?.tabs?.create === "function";
 }
 
 /**
  * Open a URL in a new tab
  *
- * Uses chrome.tabs.create when available (service worker, background),
+ * Uses tabs.create when available (service worker, background),
  * falls back to window.open for UI contexts.
  */
 export async function openUrl(url: string): Promise<void> {
@@ -31,9 +28,9 @@ export async function openUrl(url: string): Promise<void> {
   }
 
   try {
-    // Prefer chrome.tabs.create
-    if (isChromeTabsAvailable()) {
-      await openWithChromeTabsApi(url);
+    // Prefer tabs.create
+    if (isTabsApiAvailable()) {
+      await openWithTabsApi(url);
       return;
     }
 
@@ -44,7 +41,7 @@ export async function openUrl(url: string): Promise<void> {
     }
 
     throw createRuntimeError(
-      "No method available to open URL. Neither chrome.tabs nor window.open is accessible."
+      "No method available to open URL. Neither tabs.create nor window.open is accessible."
     );
   } catch (error) {
     // Re-throw if already a BillingExtensionsError
@@ -64,18 +61,21 @@ export async function openUrl(url: string): Promise<void> {
 }
 
 /**
- * Open URL using chrome.tabs.create
+ * Open URL using tabs.create
  */
-function openWithChromeTabsApi(url: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    chrome.tabs.create({ url, active: true }, () => {
-      if (chrome.runtime.lastError) {
-        reject(createRuntimeError(chrome.runtime.lastError.message ?? "Failed to create tab"));
-        return;
-      }
-      resolve();
-    });
-  });
+async function openWithTabsApi(url: string): Promise<void> {
+  const api = getExtensionApi();
+  if (!api) {
+    throw createRuntimeError("tabs API is not available");
+  }
+
+  try {
+    await api.tabs.create({ url, active: true });
+  } catch (error) {
+    throw createRuntimeError(
+      error instanceof Error && error.message ? error.message : "Failed to create tab"
+    );
+  }
 }
 
 /**
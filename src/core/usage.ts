@@ -0,0 +1,169 @@
+/**
+ * Metered Usage
+ *
+ * Batches usage increments in the local storage area until the service worker
+ * flushes them to the API, and computes optimistic quota from the cached status.
+ *
+ * Every read-modify-write of the batch goes through one queue per storage
+ * adapter, so concurrent calls in a context never lose increments. Other
+ * contexts hand their increments to the service worker (see the broker's
+ * "recordUsage" method) so it stays the only writer.
+ *
+ * A batch being reported moves to its own key and still counts as pending
+ * until the reconciled status is cached (or the batch is dropped), so quota
+ * never dips while a flush is in flight.
+ */
+
+import type { StorageAdapter, UsageQuota, UserStatus } from "../client/types.js";
+import { getFromLocalStorage, setInLocalStorage } from "./storage.js";
+
+/**
+ * Storage key for usage increments not yet reported to the API
+ */
+export const PENDING_USAGE_KEY = "pending_usage";
+
+/**
+ * Storage key for the batch currently being reported to the API
+ */
+export const IN_FLIGHT_USAGE_KEY = "in_flight_usage";
+
+/**
+ * Pending usage increments keyed by metric
+ */
+export type PendingUsage = Record<string, number>;
+
+/**
+ * Tail of the batch update queue per storage adapter
+ */
+const usageQueues = new WeakMap<StorageAdapter, Promise<unknown>>();
+
+/**
+ * Run a batch update after every earlier one on the same adapter has settled
+ */
+function enqueueUsageUpdate<T>(storage: StorageAdapter, update: () => Promise<T>): Promise<T> {
+  const result = (usageQueues.get(storage) ?? Promise.resolve()).then(update, update);
+  usageQueues.set(
+    storage,
+    result.catch(() => {})
+  );
+  return result;
+}
+
+/**
+ * Read a stored batch
+ */
+async function readUsage(storage: StorageAdapter, key: string): Promise<PendingUsage> {
+  return (await getFromLocalStorage<PendingUsage>(storage, key)) ?? {};
+}
+
+/**
+ * Sum increments into a batch
+ */
+function mergeUsage(into: PendingUsage, increments: PendingUsage): PendingUsage {
+  for (const [metric, amount] of Object.entries(increments)) {
+    into[metric] = (into[metric] ?? 0) + amount;
+  }
+  return into;
+}
+
+/**
+ * Read pending usage increments, including the batch being reported
+ */
+export async function getPendingUsage(storage: StorageAdapter): Promise<PendingUsage> {
+  const [pending, inFlight] = await Promise.all([
+    readUsage(storage, PENDING_USAGE_KEY),
+    readUsage(storage, IN_FLIGHT_USAGE_KEY),
+  ]);
+  return mergeUsage(pending, inFlight);
+}
+
+/**
+ * Add increments to the pending batch
+ */
+export async function addPendingUsage(
+  storage: StorageAdapter,
+  increments: PendingUsage
+): Promise<void> {
+  return enqueueUsageUpdate(storage, async () => {
+    const pending = mergeUsage(await readUsage(storage, PENDING_USAGE_KEY), increments);
+    await setInLocalStorage(storage, PENDING_USAGE_KEY, pending);
+  });
+}
+
+/**
+ * Move the pending batch in flight and return everything in flight
+ *
+ * A batch left in flight by a service worker that stopped mid-flush is
+ * reported again along with the new increments. Callers must finish with
+ * settleInFlightUsage() or restoreInFlightUsage().
+ */
+export async function markUsageInFlight(storage: StorageAdapter): Promise<PendingUsage> {
+  return enqueueUsageUpdate(storage, async () => {
+    const [pending, inFlight] = await Promise.all([
+      readUsage(storage, PENDING_USAGE_KEY),
+      readUsage(storage, IN_FLIGHT_USAGE_KEY),
+    ]);
+
+    if (Object.keys(pending).length > 0) {
+      mergeUsage(inFlight, pending);
+      await setInLocalStorage<PendingUsage>(storage, IN_FLIGHT_USAGE_KEY, inFlight);
+      await setInLocalStorage<PendingUsage>(storage, PENDING_USAGE_KEY, {});
+    }
+
+    return inFlight;
+  });
+}
+
+/**
+ * Forget the in-flight batch once it's reflected in the cached status or dropped
+ */
+export async function settleInFlightUsage(storage: StorageAdapter): Promise<void> {
+  return enqueueUsageUpdate(storage, async () => {
+    await setInLocalStorage<PendingUsage>(storage, IN_FLIGHT_USAGE_KEY, {});
+  });
+}
+
+/**
+ * Hand the in-flight batch back to the pending batch so it's reported again
+ */
+export async function restoreInFlightUsage(storage: StorageAdapter): Promise<void> {
+  return enqueueUsageUpdate(storage, async () => {
+    const [pending, inFlight] = await Promise.all([
+      readUsage(storage, PENDING_USAGE_KEY),
+      readUsage(storage, IN_FLIGHT_USAGE_KEY),
+    ]);
+    if (Object.keys(inFlight).length === 0) return;
+
+    await setInLocalStorage<PendingUsage>(
+      storage,
+      PENDING_USAGE_KEY,
+      mergeUsage(pending, inFlight)
+    );
+    await setInLocalStorage<PendingUsage>(storage, IN_FLIGHT_USAGE_KEY, {});
+  });
+}
+
+/**
+ * Compute quota for a metric from server usage plus unreported local increments
+ * Returns null if the server doesn't track the metric for this user
+ */
+export function computeUsageQuota(
+  status: UserStatus,
+  metric: string,
+  pending: PendingUsage
+): UsageQuota | null {
+  const server = status.usage?.[metric];
+  if (server === undefined) return null;
+
+  const pendingAmount = pending[metric] ?? 0;
+  const used = server.used + pendingAmount;
+
+  return {
+    metric,
+    used,
+    pending: pendingAmount,
+    limit: server.limit,
+    remaining: server.limit === null ? null : Math.max(0, server.limit - used),
+    resetsAt: server.resetsAt,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Response Validation
+ *
+ * Checks API responses against the schemas generated from the OpenAPI spec
+ * (src/generated/openapi-validators.ts) before they are returned or cached.
+ */
+
+import { schemas, type SchemaName } from "../generated/openapi-validators.js";
+import type {
+  IdentityTokenResponse,
+  LicenseActivationResponse,
+  PaywallSessionResponse,
+  PlanForSDK,
+  UserStatus,
+} from "../client/types.js";
+import { createInvalidResponseError } from "./errors.js";
+
+/**
+ * Compact JSON Schema subset emitted by scripts/gen-validators.mjs
+ */
+export type SchemaNode =
+  | { type: "string" | "number" | "integer" | "boolean" | "null" }
+  | {
+      type: "object";
+      required: string[];
+      properties: Record<string, SchemaNode>;
+      additionalProperties?: SchemaNode;
+    }
+  | { type: "array"; items: SchemaNode }
+  | { enum: unknown[] }
+  | { anyOf: SchemaNode[] }
+  | { ref: string };
+
+/**
+ * Validates a parsed response body, returning it typed or throwing InvalidResponse
+ */
+export type ResponseValidator<T> = (value: unknown) => T;
+
+/**
+ * Maximum number of issues included in an error message
+ */
+const MAX_REPORTED_ISSUES = 5;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Collect validation issues for a value (empty array means valid)
+ *
+ * Properties not described by the schema are allowed, so the API can add
+ * fields without breaking older SDK versions.
+ */
+export function validateSchema(node: SchemaNode, value: unknown, path: string): string[] {
+  if ("ref" in node) {
+    const target = schemas[node.ref as SchemaName];
+    if (!target) return [`${path}: unknown schema "${node.ref}"`];
+    return validateSchema(target, value, path);
+  }
+
+  if ("anyOf" in node) {
+    const results = node.anyOf.map((variant) => validateSchema(variant, value, path));
+    if (results.some((issues) => issues.length === 0)) return [];
+    // Report the closest match, preferring variants whose top-level type matched
+    const deeper = results.filter((issues) => !issues.some((i) => i.startsWith(`${path}: `)));
+    const candidates = deeper.length > 0 ? deeper : results;
+    return candidates.reduce((best, issues) => (issues.length < best.length ? issues : best));
+  }
+
+  if ("enum" in node) {
+    return node.enum.includes(value)
+      ? []
+      : [`${path}: expected one of ${JSON.stringify(node.enum)}, got ${JSON.stringify(value)}`];
+  }
+
+  switch (node.type) {
+    case "string":
+    case "boolean":
+      return typeof value === node.type
+        ? []
+        : [`${path}: expected ${node.type}, got ${describe(value)}`];
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? []
+        : [`${path}: expected number, got ${describe(value)}`];
+    case "integer":
+      return Number.isInteger(value) ? [] : [`${path}: expected integer, got ${describe(value)}`];
+    case "null":
+      return value === null ? [] : [`${path}: expected null, got ${describe(value)}`];
+    case "array": {
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      return value.flatMap((item, i) => validateSchema(node.items, item, `${path}[${i}]`));
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+
+      const record = value as Record<string, unknown>;
+      const issues: string[] = [];
+
+      for (const key of node.required) {
+        if (!(key in record)) issues.push(`${path}.${key}: missing required property`);
+      }
+
+      for (const [key, item] of Object.entries(record)) {
+        const propertySchema = node.properties[key] ?? node.additionalProperties;
+        if (propertySchema && item !== undefined) {
+          issues.push(...validateSchema(propertySchema, item, `${path}.${key}`));
+        }
+      }
+
+      return issues;
+    }
+  }
+}
+
+/**
+ * Create a validator for a named OpenAPI component schema
+ */
+export function createValidator<T>(name: SchemaName): ResponseValidator<T> {
+  return createNodeValidator<T>(name, name, { ref: name });
+}
+
+/**
+ * Create a validator for an array of a named OpenAPI component schema
+ */
+export function createArrayValidator<T>(name: SchemaName): ResponseValidator<T[]> {
+  return createNodeValidator<T[]>(`${name}[]`, name, { type: "array", items: { ref: name } });
+}
+
+function createNodeValidator<T>(
+  label: string,
+  path: string,
+  node: SchemaNode
+): ResponseValidator<T> {
+  return (value: unknown): T => {
+    const issues = validateSchema(node, value, path);
+
+    if (issues.length > 0) {
+      const shown = issues.slice(0, MAX_REPORTED_ISSUES).join("; ");
+      const more =
+        issues.length > MAX_REPORTED_ISSUES
+          ? ` (+${issues.length - MAX_REPORTED_ISSUES} more)`
+          : "";
+      throw createInvalidResponseError(`Invalid ${label} response: ${shown}${more}`);
+    }
+
+    return value as T;
+  };
+}
+
+export const validateUserStatus = createValidator<UserStatus>("UserStatus");
+export const validatePlans = createArrayValidator<PlanForSDK>("Plan");
+export const validatePaywallSession =
+  createValidator<PaywallSessionResponse>("PaywallSessionResponse");
+export const validateIdentityToken =
+  createValidator<IdentityTokenResponse>("IdentityTokenResponse");
+export const validateLicenseActivation = createValidator<LicenseActivationResponse>(
+  "LicenseActivationResponse"
+);
@@ -134,6 +134,24 @@ export interface components {
             currentPeriodEnd: string | null;
             /** @description Whether the subscription will cancel at period end */
             cancelAtPeriodEnd: boolean;
+            /** @description Metered usage keyed by metric name (omitted if the app has no metered plans) */
+            usage?: {
+                [key: string]: components["schemas"]["UsageMetric"];
+            };
+            /** @description Compact JWS (ES256 or EdDSA) whose status claim is this status without signedStatus; sub = extensionUserId, aud = appId, exp = when the signature stops being trusted (SDK only, omitted if status signing is disabled) */
+            signedStatus?: string;
+        };
+        /** @description Usage and quota for a single metric in the current period */
+        UsageMetric: {
+            /** @description Units used in the current period */
+            used: number;
+            /** @description Units allowed per period, or null if unlimited */
+            limit: number | null;
+            /**
+             * Format: date-time
+             * @description When the usage counter resets (ISO 8601)
+             */
+            resetsAt: string | null;
         };
         /** @description Plan details (shared: SDK + Developer API) */
         Plan: {
@@ -225,6 +243,22 @@ export interface components {
              */
             url: string;
         };
+        /** @description Result of activating a license key (SDK only) */
+        LicenseActivationResponse: {
+            /** @description Compact JWS (ES256 or EdDSA) verifiable offline; sub = extensionUserId, aud = appId, plan = UserPlan, exp omitted for lifetime licenses */
+            license: string;
+            status: components["schemas"]["UserStatus"];
+        };
+        /** @description Short-lived signed identity token (SDK only) */
+        IdentityTokenResponse: {
+            /** @description ES256 JWT binding the extension user ID (sub), app ID (aud) and extension ID (ext) */
+            token: string;
+            /**
+             * Format: date-time
+             * @description When the token expires (ISO 8601)
+             */
+            expiresAt: string;
+        };
     };
     responses: never;
     parameters: never;
@@ -0,0 +1,472 @@
+/**
+ * This file was auto-generated by scripts/gen-validators.mjs.
+ * Do not make direct changes to the file.
+ */
+
+import type { SchemaNode } from "../core/validate.js";
+
+export type SchemaName = "Error" | "UserPlan" | "UserStatus" | "UsageMetric" | "Plan" | "PlansResponse" | "App" | "AppsResponse" | "Payment" | "PaymentsResponse" | "Subscription" | "SubscriptionsResponse" | "PaywallSessionResponse" | "LicenseActivationResponse" | "IdentityTokenResponse";
+
+export const schemas: Record<SchemaName, SchemaNode> = {
+    "Error": {
+        "type": "object",
+        "required": [
+            "error"
+        ],
+        "properties": {
+            "error": {
+                "type": "string"
+            }
+        }
+    },
+    "UserPlan": {
+        "type": "object",
+        "required": [
+            "id",
+            "name"
+        ],
+        "properties": {
+            "id": {
+                "type": "string"
+            },
+            "name": {
+                "type": "string"
+            }
+        }
+    },
+    "UserStatus": {
+        "type": "object",
+        "required": [
+            "extensionUserId",
+            "paid",
+            "subscriptionStatus",
+            "plan",
+            "currentPeriodEnd",
+            "cancelAtPeriodEnd"
+        ],
+        "properties": {
+            "extensionUserId": {
+                "type": "string"
+            },
+            "paid": {
+                "type": "boolean"
+            },
+            "subscriptionStatus": {
+                "type": "string"
+            },
+            "plan": {
+                "anyOf": [
+                    {
+                        "ref": "UserPlan"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "currentPeriodEnd": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "cancelAtPeriodEnd": {
+                "type": "boolean"
+            },
+            "usage": {
+                "type": "object",
+                "required": [],
+                "properties": {},
+                "additionalProperties": {
+                    "ref": "UsageMetric"
+                }
+            },
+            "signedStatus": {
+                "type": "string"
+            }
+        }
+    },
+    "UsageMetric": {
+        "type": "object",
+        "required": [
+            "used",
+            "limit",
+            "resetsAt"
+        ],
+        "properties": {
+            "used": {
+                "type": "number"
+            },
+            "limit": {
+                "anyOf": [
+                    {
+                        "type": "number"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "resetsAt": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            }
+        }
+    },
+    "Plan": {
+        "type": "object",
+        "required": [
+            "id",
+            "name",
+            "priceAmount",
+            "currency",
+            "billingType",
+            "interval",
+            "intervalCount"
+        ],
+        "properties": {
+            "id": {
+                "type": "string"
+            },
+            "name": {
+                "type": "string"
+            },
+            "priceAmount": {
+                "type": "number"
+            },
+            "currency": {
+                "type": "string"
+            },
+            "billingType": {
+                "type": "string"
+            },
+            "interval": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "intervalCount": {
+                "type": "number"
+            }
+        }
+    },
+    "PlansResponse": {
+        "type": "object",
+        "required": [
+            "plans"
+        ],
+        "properties": {
+            "plans": {
+                "type": "array",
+                "items": {
+                    "ref": "Plan"
+                }
+            }
+        }
+    },
+    "App": {
+        "type": "object",
+        "required": [
+            "id",
+            "extensionName",
+            "extensionIdentifier",
+            "store",
+            "publicKey",
+            "createdAt",
+            "updatedAt"
+        ],
+        "properties": {
+            "id": {
+                "type": "string"
+            },
+            "extensionName": {
+                "type": "string"
+            },
+            "extensionIdentifier": {
+                "type": "string"
+            },
+            "store": {
+                "type": "string"
+            },
+            "publicKey": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "createdAt": {
+                "type": "string"
+            },
+            "updatedAt": {
+                "type": "string"
+            }
+        }
+    },
+    "AppsResponse": {
+        "type": "object",
+        "required": [
+            "apps"
+        ],
+        "properties": {
+            "apps": {
+                "type": "array",
+                "items": {
+                    "ref": "App"
+                }
+            }
+        }
+    },
+    "Payment": {
+        "type": "object",
+        "required": [
+            "id",
+            "amountPaid",
+            "currency",
+            "status",
+            "paymentType",
+            "paidAt",
+            "subscriptionId",
+            "stripeInvoiceId",
+            "stripePaymentIntentId",
+            "stripeChargeId",
+            "platformFee"
+        ],
+        "properties": {
+            "id": {
+                "type": "string"
+            },
+            "amountPaid": {
+                "type": "number"
+            },
+            "currency": {
+                "type": "string"
+            },
+            "status": {
+                "type": "string"
+            },
+            "paymentType": {
+                "type": "string"
+            },
+            "paidAt": {
+                "type": "string"
+            },
+            "subscriptionId": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "stripeInvoiceId": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "stripePaymentIntentId": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "stripeChargeId": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "platformFee": {
+                "anyOf": [
+                    {
+                        "type": "number"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            }
+        }
+    },
+    "PaymentsResponse": {
+        "type": "object",
+        "required": [
+            "payments"
+        ],
+        "properties": {
+            "payments": {
+                "type": "array",
+                "items": {
+                    "ref": "Payment"
+                }
+            }
+        }
+    },
+    "Subscription": {
+        "type": "object",
+        "required": [
+            "id",
+            "type",
+            "status",
+            "currentPeriodEnd",
+            "cancelAtPeriodEnd",
+            "plan",
+            "stripeCustomerId",
+            "stripeSubscriptionId",
+            "createdAt",
+            "updatedAt"
+        ],
+        "properties": {
+            "id": {
+                "type": "string"
+            },
+            "type": {
+                "type": "string"
+            },
+            "status": {
+                "type": "string"
+            },
+            "currentPeriodEnd": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "cancelAtPeriodEnd": {
+                "type": "boolean"
+            },
+            "plan": {
+                "anyOf": [
+                    {
+                        "ref": "UserPlan"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "stripeCustomerId": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "stripeSubscriptionId": {
+                "anyOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ]
+            },
+            "createdAt": {
+                "type": "string"
+            },
+            "updatedAt": {
+                "type": "string"
+            }
+        }
+    },
+    "SubscriptionsResponse": {
+        "type": "object",
+        "required": [
+            "subscriptions"
+        ],
+        "properties": {
+            "subscriptions": {
+                "type": "array",
+                "items": {
+                    "ref": "Subscription"
+                }
+            }
+        }
+    },
+    "PaywallSessionResponse": {
+        "type": "object",
+        "required": [
+            "token",
+            "url"
+        ],
+        "properties": {
+            "token": {
+                "type": "string"
+            },
+            "url": {
+                "type": "string"
+            }
+        }
+    },
+    "LicenseActivationResponse": {
+        "type": "object",
+        "required": [
+            "license",
+            "status"
+        ],
+        "properties": {
+            "license": {
+                "type": "string"
+            },
+            "status": {
+                "ref": "UserStatus"
+            }
+        }
+    },
+    "IdentityTokenResponse": {
+        "type": "object",
+        "required": [
+            "token",
+            "expiresAt"
+        ],
+        "properties": {
+            "token": {
+                "type": "string"
+            },
+            "expiresAt": {
+                "type": "string"
+            }
+        }
+    }
+};
@@ -20,6 +20,11 @@ export type {
   // Client
   BillingExtensionsClient,
   BillingExtensionsClientConfig,
+  ApiEnvironment,
+
+  // Entitlements
+  EntitlementsConfig,
+  PlanEntitlements,
 
   // User Status
   UserStatus,
@@ -27,21 +32,47 @@ export type {
   // Plans
   PlanForSDK,
 
+  // Usage
+  UsageMetric,
+  UsageQuota,
+
   // Paywall Session
   PaywallSessionResponse,
+  IdentityTokenResponse,
+  LicenseActivationResponse,
 
   // Change Detection
   StatusDiff,
+  StatusChange,
   StatusChangeHandler,
+  LifecycleEventType,
+  LifecycleEvent,
+  LifecycleEventHandler,
 
   // AutoSync
   AutoSyncOptions,
 
   // Options
   GetUserOptions,
+  BackgroundTrackingOptions,
+  BrokerOptions,
+  WaitForOptions,
+  GetPlansOptions,
+  RetryPolicy,
+  OpenCheckoutOptions,
+  StatusCacheOptions,
+  GraceExpiredContext,
+  StatusMeta,
+  PublicJwk,
+
+  // Storage
+  StorageAdapter,
+  StorageArea,
+  StorageChange,
 
   // Errors
   BillingExtensionsError,
+  BillingExtensionsErrorType,
 } from "./client/types.js";
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -50,11 +81,32 @@ export type {
 
 export { isBillingExtensionsError } from "./core/errors.js";
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Storage Adapters
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  createChromeStorageAdapter,
+  createBrowserStorageAdapter,
+  createMemoryStorageAdapter,
+  createLocalStorageAdapter,
+} from "./core/storageAdapters.js";
+export type { LocalStorageAdapterOptions } from "./core/storageAdapters.js";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Pricing Utilities
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { formatPlanPrice, describeInterval } from "./core/pricing.js";
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Content Script
 // ═══════════════════════════════════════════════════════════════════════════
 
 export { startContentScript } from "./content/startContentScript.js";
+export type { ContentScriptOptions, UrlMatcher } from "./content/startContentScript.js";
+export { CHECKOUT_CANCELLED_MESSAGE } from "./core/checkoutReturn.js";
+export type { CheckoutCancelledMessage } from "./core/checkoutReturn.js";
 
 // Auto-run content script detection (safe-guarded to only run in content script context)
 import "./content/auto.js";
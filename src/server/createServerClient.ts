@@ -0,0 +1,146 @@
+/**
+ * BillingExtensions Server Client Factory
+ *
+ * Creates a typed client for the Developer API. Server-side only - it
+ * authenticates with your secret key.
+ */
+
+import { createConfigError, normalizeError } from "../core/errors.js";
+import { resolveApiOrigin, validateRetryPolicy } from "../core/http.js";
+import { getRuntimeId } from "../core/platform.js";
+import { createValidator } from "../core/validate.js";
+import { serverGet } from "./http.js";
+import type {
+  AppScopeOptions,
+  BillingExtensionsServerClient,
+  BillingExtensionsServerClientConfig,
+  ListAppsResponse,
+  ListPaymentsResponse,
+  ListPlansResponse,
+  ListSubscriptionsResponse,
+  UserStatus,
+} from "./types.js";
+
+const validateAppsResponse = createValidator<ListAppsResponse>("AppsResponse");
+const validatePlansResponse = createValidator<ListPlansResponse>("PlansResponse");
+const validateUserStatus = createValidator<UserStatus>("UserStatus");
+const validatePaymentsResponse = createValidator<ListPaymentsResponse>("PaymentsResponse");
+const validateSubscriptionsResponse =
+  createValidator<ListSubscriptionsResponse>("SubscriptionsResponse");
+
+/**
+ * Validate server client configuration
+ */
+function validateConfig(config: BillingExtensionsServerClientConfig): void {
+  if (!config.secretKey || typeof config.secretKey !== "string") {
+    throw createConfigError("secretKey is required and must be a non-empty string");
+  }
+
+  // Secret keys must never ship inside an extension bundle
+  if (getRuntimeId() !== undefined) {
+    throw createConfigError(
+      "The server client must not be used inside a browser extension - use createBillingExtensionsClient instead"
+    );
+  }
+
+  if (config.appId !== undefined && (!config.appId || typeof config.appId !== "string")) {
+    throw createConfigError("appId must be a non-empty string");
+  }
+
+  // Throws ConfigError for malformed custom origins
+  resolveApiOrigin(config.environment);
+
+  validateRetryPolicy(config.retry);
+}
+
+/**
+ * Create a BillingExtensions server client
+ *
+ * @param config - Server client configuration with secretKey
+ * @returns BillingExtensionsServerClient instance
+ * @throws BillingExtensionsError with type "ConfigError" if configuration is invalid
+ */
+export function createBillingExtensionsServerClient(
+  config: BillingExtensionsServerClientConfig
+): BillingExtensionsServerClient {
+  validateConfig(config);
+
+  /**
+   * Build an app-scoped path, URL-encoding each segment
+   */
+  const appPath = (opts: AppScopeOptions | undefined, ...segments: string[]): string => {
+    const appId = opts?.appId ?? config.appId;
+    if (!appId) {
+      throw createConfigError("appId is required - pass it in the config or per call");
+    }
+
+    return ["api/v1/apps", ...[appId, ...segments].map(encodeURIComponent)].join("/");
+  };
+
+  const requireUserId = (extensionUserId: string): string => {
+    if (!extensionUserId || typeof extensionUserId !== "string") {
+      throw createConfigError("extensionUserId is required and must be a non-empty string");
+    }
+    return extensionUserId;
+  };
+
+  return {
+    async listApps(): Promise<ListAppsResponse> {
+      try {
+        return await serverGet(config, "api/v1/apps", { validate: validateAppsResponse });
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    async listPlans(opts?: AppScopeOptions): Promise<ListPlansResponse> {
+      try {
+        return await serverGet(config, appPath(opts, "plans"), {
+          validate: validatePlansResponse,
+        });
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    async getUserStatus(extensionUserId: string, opts?: AppScopeOptions): Promise<UserStatus> {
+      try {
+        return await serverGet(config, appPath(opts, "users", requireUserId(extensionUserId)), {
+          validate: validateUserStatus,
+        });
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    async listPayments(
+      extensionUserId: string,
+      opts?: AppScopeOptions
+    ): Promise<ListPaymentsResponse> {
+      try {
+        return await serverGet(
+          config,
+          appPath(opts, "users", requireUserId(extensionUserId), "payments"),
+          { validate: validatePaymentsResponse }
+        );
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+
+    async listSubscriptions(
+      extensionUserId: string,
+      opts?: AppScopeOptions
+    ): Promise<ListSubscriptionsResponse> {
+      try {
+        return await serverGet(
+          config,
+          appPath(opts, "users", requireUserId(extensionUserId), "subscriptions"),
+          { validate: validateSubscriptionsResponse }
+        );
+      } catch (error) {
+        throw normalizeError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Server HTTP Client
+ *
+ * Fetch wrapper for the Developer API, authenticated with a secret key.
+ * Shares retry, timeout and error mapping with the browser client.
+ */
+
+import { DEFAULT_TIMEOUT_MS, fetchWithRetry, resolveApiOrigin } from "../core/http.js";
+import { createApiError } from "../core/errors.js";
+import type { ResponseValidator } from "../core/validate.js";
+import { getSDKVersion } from "../core/version.js";
+import type { BillingExtensionsServerClientConfig } from "./types.js";
+
+/**
+ * Make a GET request to the Developer API
+ */
+export async function serverGet<T>(
+  config: BillingExtensionsServerClientConfig,
+  path: string,
+  opts: { validate?: ResponseValidator<T> } = {}
+): Promise<T> {
+  const url = new URL(path, resolveApiOrigin(config.environment));
+
+  const result = await fetchWithRetry<T>(
+    config.fetchImpl ?? fetch,
+    url.toString(),
+    {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${config.secretKey}`,
+        "X-SDK-Version": getSDKVersion(),
+      },
+    },
+    "GET",
+    {
+      timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      retry: config.retry,
+      validate: opts.validate,
+    }
+  );
+
+  if (result.notModified) {
+    throw createApiError(304, `Unexpected 304 Not Modified for GET ${path}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,84 @@
+/**
+ * Identity Token Verification
+ *
+ * Checks tokens from client.getIdentityToken() offline against the published
+ * BillingExtensions public key, so a backend can trust the extensionUserId
+ * instead of taking the X-Extension-User-Id header at face value.
+ */
+
+import { createConfigError, createInvalidTokenError } from "../core/errors.js";
+import { assertTokenTimes, verifyJws, type PublicJwk } from "../core/jws.js";
+import type { IdentityTokenClaims, VerifyIdentityTokenOptions } from "./types.js";
+
+/**
+ * Default allowed clock skew in seconds
+ */
+const DEFAULT_CLOCK_TOLERANCE_SEC = 30;
+
+function normalizeKeys(publicKeys: VerifyIdentityTokenOptions["publicKeys"]): PublicJwk[] {
+  if (Array.isArray(publicKeys)) return publicKeys;
+  if ("keys" in publicKeys && Array.isArray(publicKeys.keys)) return publicKeys.keys;
+  return [publicKeys as PublicJwk];
+}
+
+/**
+ * Verify an identity token and return its claims
+ *
+ * Checks the signature, expiry, the app ID and (if given) the extension ID.
+ *
+ * @example
+ * const { sub: extensionUserId } = await verifyIdentityToken(token, {
+ *   publicKeys: BILLINGEXTENSIONS_JWKS,
+ *   appId: "my-app",
+ * });
+ *
+ * @param token - Token from client.getIdentityToken()
+ * @param opts - Public keys and expected claims
+ * @returns Verified claims (sub is the extensionUserId)
+ * @throws BillingExtensionsError with type "InvalidToken" (or "ConfigError" without keys)
+ */
+export async function verifyIdentityToken(
+  token: string,
+  opts: VerifyIdentityTokenOptions
+): Promise<IdentityTokenClaims> {
+  const keys = opts?.publicKeys ? normalizeKeys(opts.publicKeys) : [];
+  if (keys.length === 0) {
+    throw createConfigError("publicKeys is required to verify identity tokens");
+  }
+  if (!opts.appId || typeof opts.appId !== "string") {
+    throw createConfigError("appId is required to verify identity tokens");
+  }
+  if (
+    opts.extensionId !== undefined &&
+    (!opts.extensionId || typeof opts.extensionId !== "string")
+  ) {
+    throw createConfigError("extensionId must be a non-empty string");
+  }
+
+  const claims = await verifyJws<Partial<IdentityTokenClaims>>(token, keys, opts.subtle);
+  assertTokenTimes(claims, opts.clockToleranceSec ?? DEFAULT_CLOCK_TOLERANCE_SEC);
+
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw createInvalidTokenError("Token is missing the extension user ID (sub)");
+  }
+  if (typeof claims.exp !== "number") {
+    throw createInvalidTokenError("Token is missing an expiry (exp)");
+  }
+  if (claims.aud !== opts.appId) {
+    throw createInvalidTokenError(
+      "Token was issued for a different app",
+      undefined,
+      "aud_mismatch"
+    );
+  }
+  // A token without an ext claim can't prove which extension it came from
+  if (opts.extensionId !== undefined && claims.ext !== opts.extensionId) {
+    throw createInvalidTokenError(
+      "Token was issued for a different extension",
+      undefined,
+      "ext_mismatch"
+    );
+  }
+
+  return claims as IdentityTokenClaims;
+}
@@ -0,0 +1,75 @@
+/**
+ * BillingExtensions Server SDK
+ *
+ * Typed Developer API client for your backend (Node 18+, Deno, Bun, edge runtimes).
+ * Import from "@billingextensions/sdk/server". Never ship your secret key in an extension.
+ *
+ * @packageDocumentation
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Client Factory
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { createBillingExtensionsServerClient } from "./createServerClient.js";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Middleware
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { requirePaid, requirePlan } from "./middleware.js";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Identity Tokens
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { verifyIdentityToken } from "./identity.js";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Public Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type {
+  // Client
+  BillingExtensionsServerClient,
+  BillingExtensionsServerClientConfig,
+  AppScopeOptions,
+
+  // Resources
+  App,
+  Plan,
+  UserStatus,
+  Payment,
+  Subscription,
+
+  // Responses
+  ListAppsResponse,
+  ListPlansResponse,
+  ListPaymentsResponse,
+  ListSubscriptionsResponse,
+
+  // Identity tokens
+  VerifyIdentityTokenOptions,
+  IdentityTokenClaims,
+  PublicJwk,
+
+  // Middleware
+  PaywallGuard,
+  GuardOptions,
+  GuardIdentityTokenOptions,
+  GuardContext,
+  GuardRequest,
+  GuardRejection,
+  NodeRequestLike,
+  NodeResponseLike,
+
+  // Errors
+  BillingExtensionsError,
+  BillingExtensionsErrorType,
+} from "./types.js";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Error Utilities
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { isBillingExtensionsError } from "../core/errors.js";
@@ -0,0 +1,304 @@
+/**
+ * Paywall Middleware
+ *
+ * Enforces paid status server-side for Node http, Express-style and fetch
+ * handlers. The user is resolved from a verified identity token by default,
+ * and their status is looked up through the server client and cached briefly
+ * in memory so hot endpoints don't hit the API on every request.
+ */
+
+import { createConfigError, isBillingExtensionsError } from "../core/errors.js";
+import { verifyIdentityToken } from "./identity.js";
+import type {
+  GuardOptions,
+  GuardRejection,
+  GuardRequest,
+  NodeRequestLike,
+  NodeResponseLike,
+  PaywallGuard,
+  UserStatus,
+  VerifyIdentityTokenOptions,
+} from "./types.js";
+
+/**
+ * Header the extension SDK sends with every request (only trusted on opt-in)
+ */
+const EXTENSION_USER_ID_HEADER = "x-extension-user-id";
+
+/**
+ * Default in-memory status cache TTL in milliseconds (30 seconds)
+ */
+const DEFAULT_GUARD_CACHE_TTL_MS = 30_000;
+
+/**
+ * Maximum number of cached statuses per guard (oldest evicted first)
+ */
+const MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * Decides whether a status is allowed; returns a rejection if not
+ */
+type GuardRule = (status: UserStatus) => GuardRejection | null;
+
+type CacheEntry = {
+  expiresAt: number;
+  status: Promise<UserStatus>;
+};
+
+type GuardResult = Awaited<ReturnType<PaywallGuard["check"]>>;
+
+function reject(
+  status: GuardRejection["status"],
+  code: GuardRejection["body"]["error"]["code"],
+  message: string,
+  extra: { requiredPlans?: string[] } = {}
+): GuardRejection {
+  return { status, body: { error: { code, message, ...extra } } };
+}
+
+function readBearerToken(req: GuardRequest): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.header("authorization") ?? "");
+  return match?.[1];
+}
+
+/**
+ * Build the user resolver: custom, identity token (recommended) or the raw
+ * header (explicit opt-in, since anyone can forge it)
+ *
+ * @throws BillingExtensionsError with type "ConfigError" if none is configured
+ */
+function createUserResolver(
+  opts: GuardOptions
+): (req: GuardRequest) => Promise<string | undefined> {
+  const { getExtensionUserId, identityToken } = opts;
+  if (getExtensionUserId) {
+    return (req) => Promise.resolve(getExtensionUserId(req));
+  }
+
+  if (identityToken) {
+    const appId = identityToken.appId ?? opts.appId;
+    if (!appId) {
+      throw createConfigError(
+        "identityToken.appId (or appId) is required to verify identity tokens"
+      );
+    }
+    const verifyOptions: VerifyIdentityTokenOptions = { ...identityToken, appId };
+
+    return async (req) => {
+      const token = readBearerToken(req);
+      if (!token) return undefined;
+      return (await verifyIdentityToken(token, verifyOptions)).sub;
+    };
+  }
+
+  if (opts.trustUserIdHeader === true) {
+    return (req) => Promise.resolve(req.header(EXTENSION_USER_ID_HEADER));
+  }
+
+  throw createConfigError(
+    "Configure identityToken (recommended), getExtensionUserId, or trustUserIdHeader: true"
+  );
+}
+
+function nodeGuardRequest(req: NodeRequestLike): GuardRequest {
+  return {
+    header(name) {
+      const value = req.headers[name.toLowerCase()];
+      return Array.isArray(value) ? value[0] : value;
+    },
+  };
+}
+
+function fetchGuardRequest(request: Request): GuardRequest {
+  return {
+    header(name) {
+      return request.headers.get(name) ?? undefined;
+    },
+  };
+}
+
+function sendNode(res: NodeResponseLike, rejection: GuardRejection): void {
+  res.statusCode = rejection.status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(rejection.body));
+}
+
+function sendFetch(rejection: GuardRejection): Response {
+  return new Response(JSON.stringify(rejection.body), {
+    status: rejection.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Create a guard from a rule
+ */
+function createGuard(opts: GuardOptions, rule: GuardRule): PaywallGuard {
+  const { client } = opts;
+  const cacheTtlMs = opts.cacheTtlMs ?? DEFAULT_GUARD_CACHE_TTL_MS;
+  const resolveUser = createUserResolver(opts);
+  const cache = new Map<string, CacheEntry>();
+
+  /**
+   * Look up status (deduped + cached; failed lookups are not cached)
+   */
+  const getStatus = (extensionUserId: string): Promise<UserStatus> => {
+    const now = Date.now();
+    const cached = cache.get(extensionUserId);
+    if (cached && cached.expiresAt > now) return cached.status;
+
+    const status = client.getUserStatus(
+      extensionUserId,
+      opts.appId !== undefined ? { appId: opts.appId } : undefined
+    );
+    status.catch(() => {
+      // A newer lookup may have replaced this entry already
+      if (cache.get(extensionUserId)?.status === status) cache.delete(extensionUserId);
+    });
+
+    cache.delete(extensionUserId);
+    cache.set(extensionUserId, { expiresAt: now + cacheTtlMs, status });
+
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+
+    return status;
+  };
+
+  const check: PaywallGuard["check"] = async (extensionUserId) => {
+    if (!extensionUserId) {
+      return {
+        ok: false,
+        rejection: reject(401, "missing_extension_user_id", "Missing extension user ID"),
+      };
+    }
+
+    let status: UserStatus;
+    try {
+      status = await getStatus(extensionUserId);
+    } catch (error) {
+      // Users the API has never seen haven't paid
+      if (isBillingExtensionsError(error) && error.status === 404) {
+        return { ok: false, rejection: reject(402, "payment_required", "Payment required") };
+      }
+      return {
+        ok: false,
+        rejection: reject(503, "billing_unavailable", "Unable to verify billing status"),
+      };
+    }
+
+    const rejection = rule(status);
+    if (rejection) return { ok: false, rejection };
+
+    return { ok: true, context: { extensionUserId, status } };
+  };
+
+  /**
+   * Resolve the user from the request, then check them
+   */
+  const checkRequest = async (req: GuardRequest): Promise<GuardResult> => {
+    let extensionUserId: string | undefined;
+    try {
+      extensionUserId = await resolveUser(req);
+    } catch (error) {
+      if (isBillingExtensionsError(error) && error.type === "InvalidToken") {
+        return {
+          ok: false,
+          rejection: reject(401, "invalid_identity_token", "Invalid identity token"),
+        };
+      }
+      throw error;
+    }
+
+    return check(extensionUserId);
+  };
+
+  return {
+    check,
+
+    express(req, res, next) {
+      void (async () => {
+        const result = await checkRequest(nodeGuardRequest(req));
+        if (!result.ok) {
+          sendNode(res, result.rejection);
+          return;
+        }
+        req.billingExtensions = result.context;
+        next();
+      })().catch(next);
+    },
+
+    node(handler) {
+      return async (req, res) => {
+        try {
+          const result = await checkRequest(nodeGuardRequest(req));
+          if (!result.ok) {
+            sendNode(res, result.rejection);
+            return;
+          }
+          req.billingExtensions = result.context;
+          await handler(req, res, result.context);
+        } catch {
+          // Node http has no error middleware - never leave an unhandled rejection
+          if (res.headersSent) {
+            res.end();
+            return;
+          }
+          sendNode(res, reject(500, "internal_error", "Internal server error"));
+        }
+      };
+    },
+
+    fetch(handler) {
+      return async (request) => {
+        const result = await checkRequest(fetchGuardRequest(request));
+        if (!result.ok) return sendFetch(result.rejection);
+        return handler(request, result.context);
+      };
+    },
+  };
+}
+
+/**
+ * Require an active paid subscription
+ *
+ * Rejects with 401 (no user ID or invalid identity token), 402 (not paid) or
+ * 503 (status lookup failed).
+ *
+ * @example
+ * const paid = requirePaid({
+ *   client: server,
+ *   appId: "my-app",
+ *   identityToken: { publicKeys: BILLINGEXTENSIONS_JWKS },
+ * });
+ * app.post("/api/llm", paid.express, handler); // Express
+ * http.createServer(paid.node(handler)); // Node http
+ * export default { fetch: paid.fetch(handler) }; // fetch handlers
+ */
+export function requirePaid(opts: GuardOptions): PaywallGuard {
+  return createGuard(opts, (status) =>
+    status.paid ? null : reject(402, "payment_required", "Payment required")
+  );
+}
+
+/**
+ * Require a paid subscription on one of the given plans
+ *
+ * Rejects like requirePaid(), plus 403 if the user is paid but on another plan.
+ */
+export function requirePlan(planIds: string[], opts: GuardOptions): PaywallGuard {
+  return createGuard(opts, (status) => {
+    if (!status.paid) return reject(402, "payment_required", "Payment required");
+
+    const planId = status.plan?.id;
+    if (planId === undefined || !planIds.includes(planId)) {
+      return reject(403, "plan_required", "Your plan does not include this feature", {
+        requiredPlans: planIds,
+      });
+    }
+
+    return null;
+  });
+}
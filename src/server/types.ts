@@ -0,0 +1,263 @@
+import type { components, operations } from "../generated/openapi-types";
+import type { ApiEnvironment, RetryPolicy } from "../client/types.js";
+import type { JwtClaims, PublicJwk } from "../core/jws.js";
+/**
+ * BillingExtensions Server SDK Public Types
+ */
+
+// Re-export error types
+export type { BillingExtensionsError, BillingExtensionsErrorType } from "../core/errors.js";
+
+/**
+ * Server client configuration
+ */
+export type BillingExtensionsServerClientConfig = {
+  /** Secret key from the BillingExtensions dashboard (sk_...). Never ship this in an extension. */
+  secretKey: string;
+  /** Default app ID for app-scoped calls (can be overridden per call) */
+  appId?: string;
+  /** API environment (default: "production") */
+  environment?: ApiEnvironment;
+  /** Optional fetch implementation (default: global fetch) */
+  fetchImpl?: typeof fetch;
+  /** Request timeout in milliseconds (default: 15000) */
+  timeoutMs?: number;
+  /** Retry policy for GET requests, or false to disable retries */
+  retry?: RetryPolicy | false;
+};
+
+/**
+ * JSON body of a successful Developer API response
+ */
+type JsonResponse<Op extends keyof operations> =
+  operations[Op]["responses"][200]["content"]["application/json"];
+
+export type App = components["schemas"]["App"];
+export type Plan = components["schemas"]["Plan"];
+export type UserStatus = components["schemas"]["UserStatus"];
+export type Payment = components["schemas"]["Payment"];
+export type Subscription = components["schemas"]["Subscription"];
+
+export type ListAppsResponse = JsonResponse<"listApps">;
+export type ListPlansResponse = JsonResponse<"listPlans">;
+export type ListPaymentsResponse = JsonResponse<"listPayments">;
+export type ListSubscriptionsResponse = JsonResponse<"listSubscriptions">;
+
+/**
+ * Options for app-scoped calls
+ */
+export type AppScopeOptions = {
+  /** App ID (default: config.appId) */
+  appId?: string;
+};
+
+/**
+ * BillingExtensions Server Client Interface
+ */
+export interface BillingExtensionsServerClient {
+  /**
+   * List apps owned by the authenticated developer
+   *
+   * @throws BillingExtensionsError
+   */
+  listApps(): Promise<ListAppsResponse>;
+
+  /**
+   * List active plans for an app
+   *
+   * @param opts - App scope options
+   * @throws BillingExtensionsError
+   */
+  listPlans(opts?: AppScopeOptions): Promise<ListPlansResponse>;
+
+  /**
+   * Get the subscription status for an extension user
+   *
+   * @param extensionUserId - The extension user ID (X-Extension-User-Id from the SDK)
+   * @param opts - App scope options
+   * @throws BillingExtensionsError
+   */
+  getUserStatus(extensionUserId: string, opts?: AppScopeOptions): Promise<UserStatus>;
+
+  /**
+   * List payments for an extension user
+   *
+   * @param extensionUserId - The extension user ID
+   * @param opts - App scope options
+   * @throws BillingExtensionsError
+   */
+  listPayments(extensionUserId: string, opts?: AppScopeOptions): Promise<ListPaymentsResponse>;
+
+  /**
+   * List subscriptions for an extension user
+   *
+   * @param extensionUserId - The extension user ID
+   * @param opts - App scope options
+   * @throws BillingExtensionsError
+   */
+  listSubscriptions(
+    extensionUserId: string,
+    opts?: AppScopeOptions
+  ): Promise<ListSubscriptionsResponse>;
+}
+
+export type { PublicJwk } from "../core/jws.js";
+
+/**
+ * Options for verifyIdentityToken()
+ */
+export type VerifyIdentityTokenOptions = {
+  /** Published BillingExtensions public key(s) as JWK, JWK array or JWKS document */
+  publicKeys: PublicJwk | PublicJwk[] | { keys: PublicJwk[] };
+  /**
+   * Expected app ID (aud claim). Required: every app's tokens are signed with
+   * the same published key, so this is what binds a token to your app.
+   */
+  appId: string;
+  /** Expected Chrome extension ID (ext claim), checked when given */
+  extensionId?: string;
+  /** Allowed clock skew in seconds (default: 30) */
+  clockToleranceSec?: number;
+  /** SubtleCrypto implementation (default: globalThis.crypto.subtle; on Node 18 pass webcrypto.subtle) */
+  subtle?: SubtleCrypto;
+};
+
+/**
+ * Verified identity token claims
+ */
+export type IdentityTokenClaims = JwtClaims & {
+  /** Extension user ID */
+  sub: string;
+  /** App ID */
+  aud: string;
+  /** Chrome extension ID */
+  ext: string;
+  iat: number;
+  exp: number;
+};
+
+/**
+ * Minimal Node `http.IncomingMessage` / Express request shape
+ */
+export type NodeRequestLike = {
+  headers: Record<string, string | string[] | undefined>;
+  /** Set by the guard before calling the next handler */
+  billingExtensions?: GuardContext;
+};
+
+/**
+ * Minimal Node `http.ServerResponse` / Express response shape
+ */
+export type NodeResponseLike = {
+  statusCode: number;
+  /** Whether the headers were already sent (set by Node) */
+  headersSent?: boolean;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+};
+
+/**
+ * Request view passed to getExtensionUserId
+ */
+export type GuardRequest = {
+  /** Read a request header (case-insensitive) */
+  header(name: string): string | undefined;
+};
+
+/**
+ * Verified billing context for a request that passed the guard
+ */
+export type GuardContext = {
+  extensionUserId: string;
+  status: UserStatus;
+};
+
+/**
+ * Options for requirePaid() / requirePlan()
+ */
+export type GuardOptions = {
+  /** Server client used to look up user status */
+  client: BillingExtensionsServerClient;
+  /** App ID (default: the client's appId) */
+  appId?: string;
+  /**
+   * Verify the `Authorization: Bearer <token>` identity token sent by the
+   * extension (client.getIdentityToken()) and use its sub as the user ID.
+   * This is the default way to resolve the user.
+   */
+  identityToken?: GuardIdentityTokenOptions;
+  /**
+   * Trust the X-Extension-User-Id header the extension SDK sends as-is.
+   * Anyone can forge it, so this is an explicit opt-in for low-value endpoints.
+   */
+  trustUserIdHeader?: boolean;
+  /**
+   * Read the extension user ID from the request yourself
+   * (overrides identityToken and trustUserIdHeader)
+   */
+  getExtensionUserId?: (req: GuardRequest) => string | undefined | Promise<string | undefined>;
+  /** How long to cache a user's status in memory in milliseconds (default: 30000) */
+  cacheTtlMs?: number;
+};
+
+/**
+ * Identity token verification for the guard
+ *
+ * appId defaults to GuardOptions.appId; one of them is required.
+ */
+export type GuardIdentityTokenOptions = Omit<VerifyIdentityTokenOptions, "appId"> & {
+  appId?: string;
+};
+
+/**
+ * Structured rejection body sent by the guard
+ */
+export type GuardRejection = {
+  status: 401 | 402 | 403 | 500 | 503;
+  body: {
+    error: {
+      code:
+        | "missing_extension_user_id"
+        | "invalid_identity_token"
+        | "payment_required"
+        | "plan_required"
+        | "billing_unavailable"
+        | "internal_error";
+      message: string;
+      requiredPlans?: string[];
+    };
+  };
+};
+
+/**
+ * Server-side paywall guard with adapters for common server styles
+ */
+export interface PaywallGuard {
+  /**
+   * Express/Connect middleware - sets req.billingExtensions and calls next()
+   */
+  express(req: NodeRequestLike, res: NodeResponseLike, next: (error?: unknown) => void): void;
+
+  /**
+   * Wrap a Node `http.createServer` handler
+   */
+  node<Req extends NodeRequestLike, Res extends NodeResponseLike>(
+    handler: (req: Req, res: Res, context: GuardContext) => unknown
+  ): (req: Req, res: Res) => Promise<void>;
+
+  /**
+   * Wrap a fetch-style handler (Request -> Response)
+   */
+  fetch(
+    handler: (request: Request, context: GuardContext) => Response | Promise<Response>
+  ): (request: Request) => Promise<Response>;
+
+  /**
+   * Check a user directly
+   *
+   * @returns The guard context if allowed, or the rejection to send
+   */
+  check(
+    extensionUserId: string | undefined
+  ): Promise<{ ok: true; context: GuardContext } | { ok: false; rejection: GuardRejection }>;
+}
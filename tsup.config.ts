@@ -2,13 +2,14 @@ import { defineConfig } from "tsup";
 
 const define = {
   __SDK_VERSION__: JSON.stringify(process.env.npm_package_version || "1.0.1"), 
-  // REMEMBER TO ADD _DEV_API_ORIGIN__: JSON.stringify("https://f8e3f5799e50.ngrok-free.app/"), WHEN TESTING LOCALLY
+  // To test against a local/staging API, pass `environment` to createBillingExtensionsClient
+  // instead of rebuilding with a __DEV_API_ORIGIN__ define.
 };
 
 export default defineConfig([
-  // 1) Normal package build (npm)
+  // 1) Normal package build (npm) + server entrypoint (@billingextensions/sdk/server)
   {
-    entry: ["src/index.ts"],
+    entry: { index: "src/index.ts", server: "src/server/index.ts" },
     format: ["esm", "cjs"],
     dts: true,
     splitting: false,